@@ -0,0 +1,125 @@
+/**
+ * Element Hiding Packs Configuration
+ *
+ * Built-in packs of CSS selectors hiding distracting elements of popular sites.
+ * Sites change their markup from time to time; selectors are kept to stable
+ * element names, roles and links where possible.
+ */
+
+import { ElementHidingPack } from '../types/ElementHiding';
+
+/**
+ * Built-in element hiding packs.
+ * Packs with a setting are turned on from the popup, the others on the options page.
+ */
+export const ELEMENT_HIDING_PACKS: ElementHidingPack[] = [
+  {
+    id: 'youtube-shorts',
+    title: 'YouTube Shorts',
+    description: 'Shorts shelves, Shorts in video lists and the Shorts navigation link',
+    hosts: ['youtube.com'],
+    setting: 'hideYoutubeShorts',
+    entries: [
+      { selector: 'a#endpoint[title="Shorts"]', description: 'Shorts navigation link' },
+      {
+        selector: 'a[href*="/shorts/"]',
+        containers: ['ytd-video-renderer, ytd-reel-shelf-renderer, ytd-rich-section-renderer', 'ytd-rich-item-renderer'],
+        description: 'Shorts shelves and Shorts in video lists'
+      },
+    ]
+  },
+  {
+    id: 'youtube-home-feed',
+    title: 'YouTube homepage feed',
+    description: 'Recommended videos and topic chips on the homepage; search and subscriptions stay usable',
+    hosts: ['youtube.com'],
+    setting: 'hideYoutubeHomeFeed',
+    entries: [
+      { selector: 'ytd-browse[page-subtype="home"] ytd-rich-grid-renderer', description: 'Homepage feed' },
+      { selector: 'ytd-browse[page-subtype="home"] ytd-feed-filter-chip-bar-renderer', description: 'Homepage topic chips' },
+    ]
+  },
+  {
+    id: 'youtube-sidebar',
+    title: 'YouTube watch page sidebar',
+    description: 'Related videos next to or below the player; playlists stay visible',
+    hosts: ['youtube.com'],
+    setting: 'hideYoutubeSidebar',
+    entries: [
+      { selector: 'ytd-watch-flexy #related', description: 'Related videos' },
+      { selector: 'ytm-item-section-renderer[section-identifier="related-items"]', description: 'Related videos on mobile' },
+    ]
+  },
+  {
+    id: 'youtube-end-screen',
+    title: 'YouTube end screen',
+    description: 'Suggestion cards over the end of videos and the video wall after them',
+    hosts: ['youtube.com'],
+    setting: 'hideYoutubeEndScreen',
+    entries: [
+      { selector: '.ytp-ce-element', description: 'End screen cards' },
+      { selector: '.ytp-endscreen-content', description: 'Video wall after the video' },
+    ]
+  },
+  {
+    id: 'youtube-autoplay',
+    title: 'YouTube autoplay',
+    description: 'Switches autoplay off and hides the next-video countdown',
+    hosts: ['youtube.com'],
+    setting: 'disableYoutubeAutoplay',
+    entries: [
+      { selector: '.ytp-autonav-toggle-button[aria-checked="true"]', click: true, description: 'Autoplay switch' },
+      { selector: '.ytp-autonav-endscreen-countdown-overlay', description: 'Next-video countdown' },
+    ]
+  },
+  {
+    id: 'youtube-comments',
+    title: 'YouTube comments',
+    description: 'Comments below videos and in the Shorts comment panel',
+    hosts: ['youtube.com'],
+    entries: [
+      { selector: 'ytd-comments#comments', description: 'Comments below videos' },
+      { selector: 'ytd-engagement-panel-section-list-renderer[target-id="engagement-panel-comments-section"]', description: 'Comment panel' },
+    ]
+  },
+  {
+    id: 'instagram-reels',
+    title: 'Instagram Reels',
+    description: 'The Reels navigation link and Reels in the feed',
+    hosts: ['instagram.com'],
+    entries: [
+      { selector: 'a[href="/reels/"]', description: 'Reels navigation link' },
+      { selector: 'a[href*="/reel/"]', containers: ['article'], description: 'Reels in the feed' },
+    ]
+  },
+  {
+    id: 'facebook-feed',
+    title: 'Facebook feed',
+    description: 'The news feed and stories; groups, messages and events stay usable',
+    hosts: ['facebook.com'],
+    entries: [
+      { selector: 'div[role="main"] div[role="feed"]', description: 'News feed' },
+      { selector: 'div[aria-label="Stories"]', description: 'Stories' },
+    ]
+  },
+  {
+    id: 'reddit-sidebar',
+    title: 'Reddit sidebar',
+    description: 'Popular communities, trending posts and other sidebar suggestions',
+    hosts: ['reddit.com'],
+    entries: [
+      { selector: '#right-sidebar-container', description: 'Sidebar' },
+      { selector: 'div.side', description: 'Sidebar on old Reddit' },
+    ]
+  },
+  {
+    id: 'linkedin-feed',
+    title: 'LinkedIn feed',
+    description: 'The home feed and LinkedIn News; profiles, jobs and messages stay usable',
+    hosts: ['linkedin.com'],
+    entries: [
+      { selector: 'div[data-finite-scroll-hotkey-context="FEED"]', description: 'Home feed' },
+      { selector: '#feed-news-module', description: 'LinkedIn News' },
+    ]
+  },
+];
@@ -0,0 +1,81 @@
+/**
+ * Halal Mode Blocklist Configuration
+ *
+ * The domain list bundled with the extension for Halal Mode. Entries block the
+ * domain and all of its subdomains; top-level domains such as "bet" block every
+ * site under them. The list can be replaced by importing an updated list of the
+ * same shape on the options page, so no live service is ever queried. Safe
+ * search is enforced through the engines' own query parameters.
+ */
+
+import { HalalBlocklist, HalalCategory, SafeSearchEngine } from '../types/HalalMode';
+
+/** Labels of the Halal Mode categories */
+export const HALAL_CATEGORY_LABELS: Record<HalalCategory, string> = {
+  [HalalCategory.Gambling]: 'Gambling',
+  [HalalCategory.Adult]: 'Adult content',
+  [HalalCategory.Alcohol]: 'Alcohol',
+};
+
+/**
+ * Bundled Halal Mode list.
+ */
+export const BUNDLED_HALAL_BLOCKLIST: HalalBlocklist = {
+  version: '2025.1',
+  domains: {
+    [HalalCategory.Gambling]: [
+      'bet', 'casino', 'poker', 'bingo', 'lotto',
+      'bet365.com', 'betfair.com', 'betway.com', 'bwin.com', 'williamhill.com',
+      'paddypower.com', 'ladbrokes.com', 'coral.co.uk', 'skybet.com', 'betfred.com',
+      'unibet.com', '888.com', '888casino.com', '888poker.com', 'pokerstars.com',
+      'partypoker.com', 'draftkings.com', 'fanduel.com', 'betmgm.com', 'caesars.com',
+      'pointsbet.com', 'stake.com', 'roobet.com', 'bovada.lv', 'betonline.ag',
+      '1xbet.com', 'melbet.com', 'mostbet.com', 'betano.com', 'bet9ja.com',
+      'sportybet.com', 'betking.com', 'leovegas.com', 'casumo.com', 'mrgreen.com',
+      'jackpotcity.com', 'spinpalace.com', 'ggpoker.com', 'wsop.com', 'nationallottery.co.uk',
+      'powerball.com', 'megamillions.com', 'lottoland.com', 'thelotter.com', 'polymarket.com',
+    ],
+    [HalalCategory.Adult]: [
+      'xxx', 'porn', 'sex', 'adult', 'sexy',
+      'pornhub.com', 'xvideos.com', 'xnxx.com', 'xhamster.com', 'redtube.com',
+      'youporn.com', 'tube8.com', 'spankbang.com', 'eporner.com', 'tnaflix.com',
+      'beeg.com', 'youjizz.com', 'motherless.com', 'hclips.com', 'txxx.com',
+      'porntrex.com', 'hqporner.com', 'daftsex.com', 'thumbzilla.com', 'ixxx.com',
+      'chaturbate.com', 'stripchat.com', 'bongacams.com', 'livejasmin.com', 'cam4.com',
+      'camsoda.com', 'myfreecams.com', 'onlyfans.com', 'fansly.com', 'manyvids.com',
+      'clips4sale.com', 'brazzers.com', 'realitykings.com', 'bangbros.com', 'naughtyamerica.com',
+      'adultfriendfinder.com', 'ashleymadison.com', 'literotica.com', 'nhentai.net', 'hentaihaven.xxx',
+      'rule34.xxx', 'e621.net', 'fapello.com', 'erome.com', 'imagefap.com',
+    ],
+    [HalalCategory.Alcohol]: [
+      'beer', 'wine', 'vodka',
+      'drizly.com', 'totalwine.com', 'wine.com', 'vivino.com', 'winc.com',
+      'reservebar.com', 'thewhiskyexchange.com', 'masterofmalt.com', 'majestic.co.uk', 'laithwaites.co.uk',
+      'nakedwines.com', 'virginwines.co.uk', 'beerhawk.co.uk', 'craftshack.com', 'flaviar.com',
+      'caskers.com', 'bevmo.com', 'liquorland.com.au', 'danmurphys.com.au', 'bws.com.au',
+      'lcbo.com', 'saq.com', 'systembolaget.se', 'vinmonopolet.no', 'alko.fi',
+      'untappd.com', 'beeradvocate.com', 'ratebeer.com', 'winespectator.com', 'wine-searcher.com',
+      'budweiser.com', 'heineken.com', 'guinness.com', 'johnniewalker.com', 'jackdaniels.com',
+      'absolut.com', 'smirnoff.com', 'bacardi.com', 'jagermeister.com', 'coronausa.com',
+    ],
+  },
+  keywords: [
+    'porn', 'porno', 'xxx', 'nsfw', 'nude', 'nudes', 'naked', 'hentai', 'erotic',
+    'erotica', 'sex', 'sexy', 'milf', 'onlyfans', 'camgirl', 'striptease', 'lingerie', 'escort',
+    'casino', 'gambling', 'slots', 'betting', 'bikini',
+  ],
+};
+
+/** Search engines forced into safe search, with the parameter that enables it */
+export const SAFE_SEARCH_ENGINES: SafeSearchEngine[] = [
+  { regexFilter: '^https?://(www\\.)?google\\.[a-z.]+/search\\?.*$', param: 'safe', value: 'active' },
+  { regexFilter: '^https?://(www\\.)?bing\\.com/search\\?.*$', param: 'adlt', value: 'strict' },
+  { regexFilter: '^https?://(html\\.|www\\.)?duckduckgo\\.com/(html/?)?\\?.*$', param: 'kp', value: '1' },
+  { regexFilter: '^https?://([a-z]+\\.)?search\\.yahoo\\.com/search.*$', param: 'vm', value: 'r' },
+];
+
+/** Hosts receiving the header that turns on YouTube's restricted mode */
+export const YOUTUBE_RESTRICTED_HOSTS = ['youtube.com', 'youtubei.googleapis.com', 'youtube-nocookie.com'];
+
+/** Header, and its value, that turns on YouTube's strict restricted mode */
+export const YOUTUBE_RESTRICT_HEADER = { name: 'YouTube-Restrict', value: 'Strict' };
@@ -0,0 +1,9 @@
+/**
+ * Navigation Events Configuration
+ *
+ * Names of the DOM events shared between the page-world history hook and the
+ * content script. DOM events reach both worlds, unlike their JavaScript objects.
+ */
+
+/** Event dispatched on the window after the page calls history.pushState or history.replaceState */
+export const HISTORY_CHANGE_EVENT = 'keepMeFocus:historyChange';
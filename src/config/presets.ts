@@ -17,23 +17,28 @@ export const RULE_PRESETS: Record<string, PresetRule> = {
   'block-youtube-shorts': {
     title: 'Block YouTube Shorts',
     pattern: 'youtube.com/shorts',
-    matchType: SiteRuleMatchType.Contains,
+    matchType: SiteRuleMatchType.PathPrefix,
     action: { type: SiteRuleActionType.Block }
   },
 
+  /** Open YouTube Shorts links on the regular watch page, without the Shorts feed */
+  'redirect-youtube-shorts': {
+    title: 'Open YouTube Shorts as regular videos',
+    pattern: '^https?://(?:www\\.|m\\.)?youtube\\.com/shorts/([\\w-]+)',
+    matchType: SiteRuleMatchType.Regex,
+    action: { type: SiteRuleActionType.Redirect, target: 'https://www.youtube.com/watch?v=$1' }
+  },
+
   /** Limit YouTube access to 10 minutes per hour with 60-minute startup delay */
   'limit-youtube': {
     title: 'Limit YouTube (10min per hour, 60min startup delay)',
     pattern: 'youtube.com',
-    matchType: SiteRuleMatchType.Contains,
+    matchType: SiteRuleMatchType.Domain,
     action: {
       type: SiteRuleActionType.Limit,
       allowedMinutes: 10,
       resetAfterMinutes: 60, // 1 hour in minutes
-      delayMinutes: 60, // 60-minute delay after browser startup
-      usedMinutes: 0,
-      lastResetAt: Date.now(),
-      lastUsedAt: Date.now()
+      delayMinutes: 60 // 60-minute delay after browser startup
     }
   },
 
@@ -41,7 +46,7 @@ export const RULE_PRESETS: Record<string, PresetRule> = {
   'block-facebook': {
     title: 'Block Facebook',
     pattern: 'facebook.com',
-    matchType: SiteRuleMatchType.Contains,
+    matchType: SiteRuleMatchType.Domain,
     action: { type: SiteRuleActionType.Block }
   },
 
@@ -49,15 +54,15 @@ export const RULE_PRESETS: Record<string, PresetRule> = {
   'block-instagram': {
     title: 'Block Instagram',
     pattern: 'instagram.com',
-    matchType: SiteRuleMatchType.Contains,
+    matchType: SiteRuleMatchType.Domain,
     action: { type: SiteRuleActionType.Block }
   },
 
-  /** Block both Twitter.com and X.com using regex */
+  /** Block both Twitter.com and X.com */
   'block-twitter': {
     title: 'Block Twitter/X',
-    pattern: '(twitter\\.com|x\\.com)',
-    matchType: SiteRuleMatchType.Regex,
+    pattern: 'twitter.com, x.com',
+    matchType: SiteRuleMatchType.Domain,
     action: { type: SiteRuleActionType.Block }
   },
 
@@ -65,47 +70,41 @@ export const RULE_PRESETS: Record<string, PresetRule> = {
   'block-tiktok': {
     title: 'Block TikTok',
     pattern: 'tiktok.com',
-    matchType: SiteRuleMatchType.Contains,
+    matchType: SiteRuleMatchType.Domain,
     action: { type: SiteRuleActionType.Block }
   },
 
   /** Limit all major social media platforms to 15 minutes per day */
   'limit-social-media': {
     title: 'Limit Social Media (15min daily)',
-    pattern: '(facebook\\.com|instagram\\.com|twitter\\.com|x\\.com|tiktok\\.com)',
-    matchType: SiteRuleMatchType.Regex,
+    pattern: 'facebook.com, instagram.com, twitter.com, x.com, tiktok.com',
+    matchType: SiteRuleMatchType.Domain,
     action: {
       type: SiteRuleActionType.Limit,
       allowedMinutes: 15,
       resetAfterMinutes: 1440, // 24 hours in minutes
-      delayMinutes: 0,
-      usedMinutes: 0,
-      lastResetAt: Date.now(),
-      lastUsedAt: Date.now()
+      delayMinutes: 0
     }
   },
 
   /** Add 10-minute delay before accessing distracting websites */
   'delay-distractions': {
     title: 'Delay Distractions (10min)',
-    pattern: '(youtube\\.com|facebook\\.com|instagram\\.com|twitter\\.com|x\\.com|tiktok\\.com|reddit\\.com)',
-    matchType: SiteRuleMatchType.Regex,
+    pattern: 'youtube.com, facebook.com, instagram.com, twitter.com, x.com, tiktok.com, reddit.com',
+    matchType: SiteRuleMatchType.Domain,
     action: {
       type: SiteRuleActionType.Limit,
       allowedMinutes: 0, // No time limit, just delay
       resetAfterMinutes: 0, // No reset needed
-      delayMinutes: 10, // 10-minute delay after browser startup
-      usedMinutes: 0,
-      lastResetAt: Date.now(),
-      lastUsedAt: Date.now()
+      delayMinutes: 10 // 10-minute delay after browser startup
     }
   },
 
-  /** Allow only work-related websites (blocks everything else) */
+  /** Allow work-related websites (blocks everything else when allowlist mode is on) */
   'allow-work-sites': {
     title: 'Allow Only Work Sites',
-    pattern: '(work\\.com|company\\.com|gmail\\.com|docs\\.google\\.com|github\\.com|stackoverflow\\.com|atlassian\\.net)',
-    matchType: SiteRuleMatchType.Regex,
+    pattern: 'work.com, company.com, gmail.com, docs.google.com, github.com, stackoverflow.com, atlassian.net',
+    matchType: SiteRuleMatchType.Domain,
     action: { type: SiteRuleActionType.Allow }
   }
 };
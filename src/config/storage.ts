@@ -11,9 +11,64 @@ export const STORAGE_KEYS = {
   /** Main extension settings from popup (sync storage) */
   POPUP_SETTINGS: 'keepMeFocus_popupSettings',
 
-  /** Site rules configuration (sync storage) */
+  /** Site rules of the default profile; other profiles append their ID (sync storage) */
   SITE_RULES: 'keepMeFocus_siteRules',
 
+  /** Rule profiles and the active profile (sync storage) */
+  PROFILES: 'keepMeFocus_profiles',
+
   /** Extension startup time tracking (local storage) */
-  STARTUP_TIME: 'keepMeFocus_lastStartupTime'
+  STARTUP_TIME: 'keepMeFocus_lastStartupTime',
+
+  /** Runtime usage counters of Limit rules, keyed by rule ID (local storage) */
+  RULE_USAGE: 'keepMeFocus_ruleUsage',
+
+  /** Tab being counted and time of the last usage tick, kept across background restarts (local storage) */
+  USAGE_TRACKER_STATE: 'keepMeFocus_usageTrackerState',
+
+  /** Daily browsing time and rule activity buckets (local storage) */
+  USAGE_HISTORY: 'keepMeFocus_usageHistory',
+
+  /** State of the running focus session (local storage) */
+  FOCUS_SESSION: 'keepMeFocus_focusSession',
+
+  /** Temporary rule exemptions granted from the alert page, keyed by rule ID (local storage) */
+  RULE_EXEMPTIONS: 'keepMeFocus_ruleExemptions',
+
+  /** Log of rule overrides with their reasons (local storage) */
+  OVERRIDE_LOG: 'keepMeFocus_overrideLog',
+
+  /** Hashed PIN or password protecting rules and settings (sync storage) */
+  LOCK: 'keepMeFocus_lock',
+
+  /** Commitment preventing rules from being loosened (sync storage) */
+  COMMITMENT: 'keepMeFocus_commitment',
+
+  /** Imported Halal Mode list and the user's custom and allowed domains (local storage) */
+  HALAL_LIST: 'keepMeFocus_halalList',
+
+  /** Element hiding selectors added by the user (sync storage) */
+  HIDING_RULES: 'keepMeFocus_hidingRules'
 } as const;
+
+/** ID of the profile that always exists and holds rules saved before profiles were introduced */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Get the storage key holding the rules of a profile.
+ * The default profile keeps the original key so that existing rules stay in place.
+ * @param profileId - ID of the profile
+ * @returns Storage key of the profile's rules (sync storage)
+ */
+export function getRulesStorageKey(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? STORAGE_KEYS.SITE_RULES : `${STORAGE_KEYS.SITE_RULES}_${profileId}`;
+}
+
+/**
+ * Check whether a storage key holds the rules of a profile.
+ * @param key - Storage key
+ * @returns True for rule keys of any profile
+ */
+export function isRulesStorageKey(key: string): boolean {
+  return key === STORAGE_KEYS.SITE_RULES || key.startsWith(`${STORAGE_KEYS.SITE_RULES}_`);
+}
@@ -9,6 +9,12 @@
 
 import "../styles/main.css";
 import DOMPurify from 'dompurify';
+import browser from 'webextension-polyfill';
+import { SettingsService } from '../services/settingsService';
+import { OverrideService, OVERRIDE_PHRASE, OVERRIDE_REASON_MIN_LENGTH, OVERRIDE_WAIT_SECONDS } from '../services/overrideService';
+import { OverrideFriction } from '../types/RuleOverride';
+import { CommitmentLockedError, CommitmentService } from '../services/commitmentService';
+import { LockDialogService } from '../services/lockDialogService';
 
 /**
  * Initialize the alert page when DOM is loaded.
@@ -18,29 +24,49 @@ window.addEventListener("DOMContentLoaded", () => {
   const messageElement = document.getElementById("alert-message");
   const urlParams = new URLSearchParams(window.location.search);
   const type = urlParams.get("type");
-  const currentUrl = urlParams.get("currentUrl");
+  // Network-level redirects pass the original URL as the fragment
+  const currentUrl = urlParams.get("currentUrl") || window.location.hash.slice(1);
   const ruleTitle = urlParams.get("ruleTitle");
   const allowedAt = urlParams.get("allowedAt");
+  const ruleId = urlParams.get("ruleId");
+
+  // Count the rule hit for the statistics page, but not again when the page is reloaded or revisited
+  const navigation = performance.getEntriesByType("navigation")[0] as PerformanceNavigationTiming | undefined;
+  const revisited = navigation?.type === "reload" || navigation?.type === "back_forward";
+  if (ruleId && !revisited) {
+    browser.runtime.sendMessage({ action: 'recordRuleHit', ruleId }).catch(error => {
+      console.error('Error recording rule hit:', error);
+    });
+  }
 
   if (messageElement && type && currentUrl && ruleTitle) {
     let message = "";
 
+    // Block and Limit rules can be overridden after a friction step
+    if (ruleId && (type === "block" || type === "limit")) {
+      setupOverride(ruleId, ruleTitle, currentUrl);
+    }
+
     if (type === "block") {
       // Display block message with link to blocked site
       message = `Access to <a href="${currentUrl}" class="text-blue-600 hover:underline">${currentUrl}</a> is blocked by the rule: <b>${ruleTitle}</b>`;
       messageElement.innerHTML = DOMPurify.sanitize(message);
-    } else if (type === "limit") {
-      // Handle time limit scenario
+    } else if (type === "limit" && !allowedAt) {
+      // Time budget used up and the rule never resets
+      message = `Your time on <a href="${currentUrl}" class="text-blue-600 hover:underline">${currentUrl}</a> is used up for the rule: <b>${ruleTitle}</b>`;
+      messageElement.innerHTML = DOMPurify.sanitize(message);
+    } else if (type === "limit" || type === "focus") {
+      // Handle time limit and focus session scenarios
       const allowedAtDate = allowedAt ? new Date(parseInt(allowedAt, 10)) : new Date();
 
       // Check if the allowed time is in the future
       const now = new Date();
       if (allowedAtDate.getTime() > now.getTime()) {
         // Start countdown timer
-        startCountdown(allowedAtDate, currentUrl, ruleTitle);
+        startCountdown(allowedAtDate, currentUrl, ruleTitle, type);
       } else {
         // Time limit has expired, redirect to original URL
-        window.location.href = currentUrl;
+        returnToSite(currentUrl);
       }
     }
   }
@@ -66,7 +92,29 @@ function formatCountdown(milliseconds: number): string {
   }
 }
 
-function startCountdown(allowedAtDate: Date, currentUrl: string, ruleTitle: string): void {
+/**
+ * Send the user back to the site once access is allowed again.
+ * Network rules are resynced first so that a stale redirect does not
+ * bring the user straight back to this page.
+ * @param currentUrl - URL of the site to return to
+ */
+async function returnToSite(currentUrl: string): Promise<void> {
+  try {
+    await browser.runtime.sendMessage({ action: 'syncNetRequestRules' });
+  } catch (error) {
+    console.error('Error syncing network rules:', error);
+  }
+  window.location.href = currentUrl;
+}
+
+/**
+ * Show a countdown until access is allowed again, then return to the site.
+ * @param allowedAtDate - When access will be allowed again
+ * @param currentUrl - URL of the restricted site
+ * @param ruleTitle - Title of the rule that was triggered
+ * @param type - Type of alert ("limit" or "focus")
+ */
+function startCountdown(allowedAtDate: Date, currentUrl: string, ruleTitle: string, type: string): void {
   const messageElement = document.getElementById("alert-message");
   if (!messageElement) return;
 
@@ -76,15 +124,19 @@ function startCountdown(allowedAtDate: Date, currentUrl: string, ruleTitle: stri
 
     if (timeRemaining <= 0) {
       // Time's up - allow access
-      window.location.href = currentUrl;
+      returnToSite(currentUrl);
       return;
     }
 
     const formattedAllowedAt = allowedAtDate.toLocaleTimeString();
     const countdown = formatCountdown(timeRemaining);
 
+    const reason = type === "focus"
+      ? `is blocked during your focus session by: <b>${ruleTitle}</b>.`
+      : `is limited by the rule: <b>${ruleTitle}</b>.`;
+
     messageElement.innerHTML = DOMPurify.sanitize(`
-      Access to <a href="${currentUrl}" class="text-blue-600 hover:underline">${currentUrl}</a> is limited by the rule: <b>${ruleTitle}</b>. 
+      Access to <a href="${currentUrl}" class="text-blue-600 hover:underline">${currentUrl}</a> ${reason}
       <br><br>
       <div class="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-3">
         <div class="text-sm text-blue-700 mb-2">You can access it at ${formattedAllowedAt}</div>
@@ -99,4 +151,124 @@ function startCountdown(allowedAtDate: Date, currentUrl: string, ruleTitle: stri
   };
 
   updateCountdown();
-}
\ No newline at end of file
+}
+/**
+ * Set up the "Continue anyway" flow for a rule.
+ * The user must complete the configured friction step and give a reason;
+ * the rule is then exempt for the configured number of minutes.
+ * @param ruleId - ID of the rule to override
+ * @param ruleTitle - Title of the rule
+ * @param currentUrl - URL of the restricted site
+ */
+async function setupOverride(ruleId: string, ruleTitle: string, currentUrl: string): Promise<void> {
+  const { overrideFriction, overrideMinutes } = await SettingsService.getInstance().loadSettings();
+  if (overrideFriction === OverrideFriction.Disabled) return;
+
+  // Overrides loosen the rules, which an active commitment does not allow
+  if (!(await CommitmentService.getInstance().getStatus()).canLoosen) return;
+
+  const section = document.getElementById("override-section");
+  const panel = document.getElementById("override-panel");
+  const openButton = document.getElementById("override-open-btn");
+  const confirmButton = document.getElementById("override-confirm-btn") as HTMLButtonElement | null;
+  const phraseInput = document.getElementById("override-phrase-input") as HTMLInputElement | null;
+  const reasonInput = document.getElementById("override-reason") as HTMLTextAreaElement | null;
+  if (!section || !panel || !openButton || !confirmButton || !phraseInput || !reasonInput) return;
+
+  const minReasonLength = overrideFriction === OverrideFriction.Reason ? OVERRIDE_REASON_MIN_LENGTH : 1;
+  let waitDone = overrideFriction !== OverrideFriction.Wait;
+
+  setText("override-minutes", overrideMinutes.toString());
+  setText("override-phrase", OVERRIDE_PHRASE);
+  setText("override-reason-hint", overrideFriction === OverrideFriction.Reason
+    ? `At least ${OVERRIDE_REASON_MIN_LENGTH} characters.`
+    : "");
+
+  const updateConfirmButton = () => {
+    const phraseDone = overrideFriction !== OverrideFriction.Phrase || phraseInput.value.trim() === OVERRIDE_PHRASE;
+    const reasonDone = reasonInput.value.trim().length >= minReasonLength;
+    confirmButton.disabled = !(phraseDone && waitDone && reasonDone);
+  };
+
+  section.classList.remove("hidden");
+
+  openButton.addEventListener("click", () => {
+    openButton.classList.add("hidden");
+    panel.classList.remove("hidden");
+
+    if (overrideFriction === OverrideFriction.Phrase) {
+      document.getElementById("override-phrase-box")?.classList.remove("hidden");
+    }
+
+    if (overrideFriction === OverrideFriction.Wait) {
+      document.getElementById("override-wait-box")?.classList.remove("hidden");
+      startWait(() => {
+        waitDone = true;
+        updateConfirmButton();
+      });
+    }
+  });
+
+  // Block pasting the phrase so that it has to be typed
+  phraseInput.addEventListener("paste", (event) => event.preventDefault());
+  phraseInput.addEventListener("input", updateConfirmButton);
+  reasonInput.addEventListener("input", updateConfirmButton);
+
+  confirmButton.addEventListener("click", async () => {
+    confirmButton.disabled = true;
+    try {
+      // An override loosens the rules, so it needs the PIN like every other loosening change
+      if (!(await LockDialogService.getInstance().requireUnlock('override this rule'))) {
+        confirmButton.disabled = false;
+        return;
+      }
+      await OverrideService.getInstance().grantOverride({
+        ruleId,
+        ruleTitle,
+        url: currentUrl,
+        reason: reasonInput.value.trim(),
+        friction: overrideFriction,
+        minutes: overrideMinutes
+      });
+      await returnToSite(currentUrl);
+    } catch (error) {
+      if (error instanceof CommitmentLockedError) {
+        setText("override-error", error.message);
+        document.getElementById("override-error")?.classList.remove("hidden");
+        return;
+      }
+      console.error("Error granting override:", error);
+      confirmButton.disabled = false;
+    }
+  });
+}
+
+/**
+ * Count down the wait friction step.
+ * @param onDone - Called when the wait is over
+ */
+function startWait(onDone: () => void): void {
+  let remaining = OVERRIDE_WAIT_SECONDS;
+
+  const updateWait = () => {
+    setText("override-wait-countdown", remaining.toString());
+    if (remaining <= 0) {
+      onDone();
+      return;
+    }
+    remaining--;
+    setTimeout(updateWait, 1000);
+  };
+
+  updateWait();
+}
+
+/**
+ * Set the text content of an element.
+ * @param id - ID of the element
+ * @param text - Text to show
+ */
+function setText(id: string, text: string): void {
+  const element = document.getElementById(id);
+  if (element) element.textContent = text;
+}
@@ -7,16 +7,53 @@
  */
 
 import browser from 'webextension-polyfill';
-import { STORAGE_KEYS } from '../config/storage';
+import { STORAGE_KEYS, isRulesStorageKey } from '../config/storage';
 import { RULE_PRESETS } from '../config/presets';
-import { SiteRule } from '../types/SiteRule';
+import { SiteRule, SiteRuleMatchType } from '../types/SiteRule';
+import { NetRequestService } from '../services/netRequestService';
+import { UsageTrackerService } from '../services/usageTrackerService';
+import { UsageService } from '../services/usageService';
+import { HistoryService } from '../services/historyService';
+import { FocusSessionService, isFocusSessionSettings } from '../services/focusSessionService';
+import { DEFAULT_POPUP_SETTINGS } from '../services/settingsService';
+import { OverrideService } from '../services/overrideService';
+import { ProfileService } from '../services/profileService';
+import { RulesService } from '../services/rulesService';
+import { BadgeService } from '../services/badgeService';
+import { getUptimeSeconds } from '../utils/uptime';
+
+/** Name of the alarm that periodically recompiles network rules (schedules, limit resets) */
+const NET_REQUEST_SYNC_ALARM = 'keepMeFocus_syncNetRequestRules';
+
+/**
+ * Create the periodic alarm that keeps network rules in sync with time-based state.
+ */
+function scheduleNetRequestSync(): void {
+  browser.alarms.create(NET_REQUEST_SYNC_ALARM, { periodInMinutes: 1 });
+}
+
+// Start central usage accounting for Limit rules
+UsageTrackerService.getInstance().run();
+
+// Drive the timer, badge and notifications of focus sessions
+FocusSessionService.getInstance().run();
+
+// Lift rule overrides granted from the alert page once they expire
+OverrideService.getInstance().run();
+
+// Show the remaining time or the rule decision of the active tab on the toolbar button
+BadgeService.getInstance().run();
 
 /**
  * Event listener for extension startup.
- * Records the startup time for uptime calculations.
+ * Records the startup time for uptime calculations and recompiles network rules,
+ * since startup delays restart with the browser.
  */
-browser.runtime.onStartup.addListener(() => {
-  browser.storage.local.set({ [STORAGE_KEYS.STARTUP_TIME]: Date.now() });
+browser.runtime.onStartup.addListener(async () => {
+  await browser.storage.local.set({ [STORAGE_KEYS.STARTUP_TIME]: Date.now() });
+
+  scheduleNetRequestSync();
+  await NetRequestService.getInstance().sync();
 });
 
 /**
@@ -25,41 +62,112 @@ browser.runtime.onStartup.addListener(() => {
  */
 browser.runtime.onInstalled.addListener(async () => {
   // Set startup time for uptime tracking
-  browser.storage.local.set({ [STORAGE_KEYS.STARTUP_TIME]: Date.now() });
+  await browser.storage.local.set({ [STORAGE_KEYS.STARTUP_TIME]: Date.now() });
+
+  // Move usage counters out of rules saved by earlier versions
+  await UsageService.getInstance().migrateFromRules();
   
   // Initialize default popup settings for new installations
   const existingSettings = await browser.storage.sync.get(STORAGE_KEYS.POPUP_SETTINGS);
   if (!existingSettings[STORAGE_KEYS.POPUP_SETTINGS]) {
     await browser.storage.sync.set({
-      [STORAGE_KEYS.POPUP_SETTINGS]: {
-        hideYoutubeShorts: true,
-        halalMode: false
-      }
+      [STORAGE_KEYS.POPUP_SETTINGS]: DEFAULT_POPUP_SETTINGS
     });
   }
 
-  // Apply default "block-youtube-shorts" preset for new installations
+  // Apply default "redirect-youtube-shorts" preset for new installations, so that shared
+  // Shorts links still open, as regular videos
   const existingRules = await browser.storage.sync.get(STORAGE_KEYS.SITE_RULES);
+  const youtubeBlockPreset = RULE_PRESETS['block-youtube-shorts'];
+  const youtubeRedirectPreset = RULE_PRESETS['redirect-youtube-shorts'];
   if (!existingRules[STORAGE_KEYS.SITE_RULES] || (existingRules[STORAGE_KEYS.SITE_RULES] as SiteRule[]).length === 0) {
-    const youtubeBlockPreset = RULE_PRESETS['block-youtube-shorts'];
     const defaultRule: SiteRule = {
-      id: `preset_block-youtube-shorts_${Date.now()}`,
-      title: youtubeBlockPreset.title,
-      pattern: youtubeBlockPreset.pattern,
-      matchType: youtubeBlockPreset.matchType,
-      action: youtubeBlockPreset.action,
+      id: `preset_redirect-youtube-shorts_${Date.now()}`,
+      title: youtubeRedirectPreset.title,
+      pattern: youtubeRedirectPreset.pattern,
+      matchType: youtubeRedirectPreset.matchType,
+      action: youtubeRedirectPreset.action,
       enabled: true
     };
     
     await browser.storage.sync.set({
       [STORAGE_KEYS.SITE_RULES]: [defaultRule]
     });
+  } else {
+    // Earlier versions installed the default rule as a plain "contains" match, which
+    // also fired on unrelated URLs containing the text; move unchanged copies to the preset's match type
+    const rules = existingRules[STORAGE_KEYS.SITE_RULES] as SiteRule[];
+    const isOutdatedDefault = (rule: SiteRule) => rule.id.startsWith('preset_block-youtube-shorts_')
+      && rule.pattern === youtubeBlockPreset.pattern && rule.matchType === SiteRuleMatchType.Contains;
+
+    if (rules.some(isOutdatedDefault)) {
+      await browser.storage.sync.set({
+        [STORAGE_KEYS.SITE_RULES]: rules.map(rule => isOutdatedDefault(rule) ? { ...rule, matchType: youtubeBlockPreset.matchType } : rule)
+      });
+    }
+  }
+
+  // Compile the current rules into network rules
+  scheduleNetRequestSync();
+  await NetRequestService.getInstance().sync();
+});
+
+/**
+ * Recompile network rules whenever the site rules, profiles, settings, usage counters, focus session,
+ * rule exemptions or Halal Mode list change, drop counters of deleted rules and schedule exemption expiry.
+ */
+browser.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'sync' && STORAGE_KEYS.POPUP_SETTINGS in changes) {
+    NetRequestService.getInstance().sync();
+  }
+
+  if (areaName === 'sync' && (STORAGE_KEYS.PROFILES in changes || Object.keys(changes).some(isRulesStorageKey))) {
+    // Recompile the rules used for usage tracking and the toolbar badge
+    RulesService.getInstance().loadRules().then(() => BadgeService.getInstance().refresh());
+
+    // Counters of inactive profiles are kept so that switching back resumes them
+    ProfileService.getInstance().loadAllRules()
+      .then(rules => UsageService.getInstance().pruneUsage(rules.map(rule => rule.id)))
+      .catch(error => console.error('Error pruning usage:', error));
+    NetRequestService.getInstance().sync();
+  }
+
+  if (areaName === 'local' && (STORAGE_KEYS.RULE_USAGE in changes || STORAGE_KEYS.FOCUS_SESSION in changes
+    || STORAGE_KEYS.HALAL_LIST in changes)) {
+    NetRequestService.getInstance().sync();
+  }
+
+  if (areaName === 'local' && STORAGE_KEYS.RULE_EXEMPTIONS in changes) {
+    OverrideService.getInstance().expireExemptions();
+    NetRequestService.getInstance().sync();
+  }
+});
+
+/**
+ * Tell the content script about in-page (SPA) navigation of a tab.
+ * Backstop for the history hook running in the page, e.g. when a page replaced it.
+ */
+browser.webNavigation.onHistoryStateUpdated.addListener((details) => {
+  if (details.frameId !== 0) return;
+
+  browser.tabs.sendMessage(details.tabId, { action: 'historyStateUpdated' }).catch(() => {
+    // The content script is not injected in this tab (e.g. browser pages)
+  });
+});
+
+/**
+ * Periodically recompile network rules so that schedules, startup delays
+ * and limit resets take effect without a rule change.
+ */
+browser.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === NET_REQUEST_SYNC_ALARM) {
+    NetRequestService.getInstance().sync();
   }
 });
 
 /**
  * Message handler for inter-script communication.
- * Currently handles uptime calculation requests.
+ * Handles uptime calculation, limit checks, usage history, focus sessions and network rule sync requests.
  * 
  * @param message - The message object from other scripts
  * @returns Promise with response data or rejection
@@ -69,10 +177,44 @@ browser.runtime.onMessage.addListener(async (message: unknown) => {
   if (typeof message === 'object' && message !== null && 'action' in message) {
     // Handle uptime calculation request
     if (message.action === 'getUptime') {
-      const lastStartupTime = await browser.storage.local.get(STORAGE_KEYS.STARTUP_TIME);
-      const uptimeSec = (Date.now() - (lastStartupTime[STORAGE_KEYS.STARTUP_TIME] as number || Date.now())) / 1000;
+      const uptimeSec = await getUptimeSeconds();
       return { uptimeSec };
     }
+
+    // Handle limit checks from content scripts
+    if (message.action === 'checkLimit' && 'ruleId' in message && typeof message.ruleId === 'string') {
+      return UsageTrackerService.getInstance().checkLimit(message.ruleId, 'pageOpen' in message && message.pageOpen === true);
+    }
+
+    // Re-evaluate the focused tab after in-page (SPA) navigation
+    if (message.action === 'pageNavigated') {
+      await UsageTrackerService.getInstance().tick();
+      return { tracked: true };
+    }
+
+    // Count rules that fired (reported by the alert page)
+    if (message.action === 'recordRuleHit' && 'ruleId' in message && typeof message.ruleId === 'string') {
+      await HistoryService.getInstance().recordRuleHit(message.ruleId);
+      return { recorded: true };
+    }
+
+    // Start a focus session from the popup
+    if (message.action === 'startFocusSession' && 'settings' in message && isFocusSessionSettings(message.settings)) {
+      const session = await FocusSessionService.getInstance().startSession(message.settings);
+      return { session };
+    }
+
+    // Stop the running focus session
+    if (message.action === 'stopFocusSession') {
+      await FocusSessionService.getInstance().stopSession();
+      return { stopped: true };
+    }
+
+    // Handle network rule sync requests (e.g. before the alert page sends the user back)
+    if (message.action === 'syncNetRequestRules') {
+      await NetRequestService.getInstance().sync();
+      return { synced: true };
+    }
   }
 
   // Reject unknown message types
@@ -1,25 +1,75 @@
 /**
  * Content Script
  * 
- * Injected into all web pages to monitor URL changes, apply site rules,
- * and handle YouTube Shorts hiding functionality. This script runs in the
- * context of web pages and can manipulate their content.
+ * Injected into all web pages to monitor URL changes, apply site rules and the
+ * page filters of Halal Mode, and hide distracting elements such as YouTube Shorts.
+ * This script runs in the context of web pages and can manipulate their content.
  */
 
+import browser from 'webextension-polyfill';
 import DetectUrlChangeService from "../services/detectUrlChangeService";
 import { RulesService } from "../services/rulesService";
-import { YouTubeShortsService } from "../services/youtubeShortsService";
+import { ElementHidingService } from "../services/elementHidingService";
+import { PageToastService } from "../services/pageToastService";
+import { HalalModeService } from "../services/halalModeService";
+import { STORAGE_KEYS, isRulesStorageKey } from '../config/storage';
 
-// Initialize YouTube Shorts service
-YouTubeShortsService.getInstance();
-
-// Initialize existing site rules functionality
-DetectUrlChangeService.getInstance().run();
+// Initialize element hiding (YouTube Shorts, feeds and the user's selectors)
+ElementHidingService.getInstance();
 
 /**
- * Listen for URL changes and apply site rules.
+ * Listen for URL changes and apply site rules and the Halal Mode page filters.
  * This handles the main blocking/limiting functionality.
+ * The background script is notified so that time is attributed to the new page.
  */
 window.addEventListener('urlChanged', async (event: any) => {
+  browser.runtime.sendMessage({ action: 'pageNavigated' }).catch(() => {
+    // Background script may be restarting, the next tick will catch up
+  });
   await RulesService.getInstance().applyRule();
-});
\ No newline at end of file
+  await HalalModeService.getInstance().applyToPage();
+});
+
+// The page title is not known at document start, check it again once the page is parsed
+document.addEventListener('DOMContentLoaded', () => HalalModeService.getInstance().applyToPage());
+
+// Start detecting navigation once the listener is in place, so that the initial URL is handled too
+DetectUrlChangeService.getInstance().run();
+
+/**
+ * Handle messages from the background script: check the URL when it reports in-page
+ * navigation (backstop for history changes the page-world hook did not see), and
+ * show limit warnings as a toast.
+ */
+browser.runtime.onMessage.addListener((message: unknown) => {
+  if (typeof message !== 'object' || message === null || !('action' in message)) return;
+
+  if (message.action === 'historyStateUpdated') {
+    DetectUrlChangeService.getInstance().checkUrl();
+  }
+
+  if (message.action === 'showLimitWarning' && 'title' in message && 'message' in message) {
+    PageToastService.getInstance().show(String(message.title), String(message.message));
+  }
+});
+
+/**
+ * Re-apply site rules when a focus session starts, changes phase or stops,
+ * when a rule override expires, when the settings change (e.g. allowlist mode),
+ * when rules are edited, when another profile is activated or when the Halal Mode
+ * list changes, so that pages which are already open follow along. Reloading also
+ * recompiles the rules.
+ */
+browser.storage.onChanged.addListener(async (changes, areaName) => {
+  const localChanged = areaName === 'local' && (STORAGE_KEYS.FOCUS_SESSION in changes || STORAGE_KEYS.RULE_EXEMPTIONS in changes
+    || STORAGE_KEYS.HALAL_LIST in changes);
+  const settingsChanged = areaName === 'sync' && (STORAGE_KEYS.POPUP_SETTINGS in changes || STORAGE_KEYS.PROFILES in changes
+    || Object.keys(changes).some(isRulesStorageKey));
+
+  if (localChanged || settingsChanged) {
+    // Reload first, the session may use rules added since this page loaded
+    await RulesService.getInstance().loadRules();
+    await RulesService.getInstance().applyRule();
+    await HalalModeService.getInstance().applyToPage();
+  }
+});
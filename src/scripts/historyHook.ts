@@ -0,0 +1,27 @@
+/**
+ * History Hook Script
+ *
+ * Runs in the page's own JavaScript world, where single page applications call
+ * history.pushState and history.replaceState. Wraps both methods so that the
+ * content script, which cannot see these calls from its isolated world, is told
+ * about in-page navigation right away.
+ */
+
+import { HISTORY_CHANGE_EVENT } from '../config/navigation';
+
+/**
+ * Wrap a history method so that it announces the navigation after it ran.
+ * @param method - Name of the history method to wrap
+ */
+function hookHistoryMethod(method: 'pushState' | 'replaceState'): void {
+  const original = history[method];
+
+  history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+    const result = original.apply(this, args);
+    window.dispatchEvent(new Event(HISTORY_CHANGE_EVENT));
+    return result;
+  };
+}
+
+hookHistoryMethod('pushState');
+hookHistoryMethod('replaceState');
@@ -11,10 +11,33 @@ import '../styles/main.css';
 import { RulesService } from '../services/rulesService';
 import { UIService } from '../services/uiService';
 import FormService from '../services/formService';
-import { SiteRule } from '../types/SiteRule';
+import { SiteRule, SiteRuleMatchType } from '../types/SiteRule';
 import { PresetRule } from '../types/PresetRule';
 import { RULE_PRESETS } from '../config/presets';
+import { MAX_LIMIT_GRACE_MINUTES, MAX_LIMIT_WARNING_MINUTES, MAX_LIMIT_WARNINGS, SettingsService } from '../services/settingsService';
+import { OverrideFriction } from '../types/RuleOverride';
+import { TransferService } from '../services/transferService';
+import { RuleImportMode, RuleImportResult } from '../types/RuleTransfer';
+import { PopupSettings } from '../types/Popup';
+import { ProfileService } from '../services/profileService';
+import { DEFAULT_PROFILE_ID, STORAGE_KEYS } from '../config/storage';
+import browser from 'webextension-polyfill';
+import { UsageService } from '../services/usageService';
+import { RuleDecision, RuleEvaluation, RuleTraceStatus } from '../types/RuleEvaluation';
+import { getUptimeSeconds } from '../utils/uptime';
+import assertNever from '../utils/assertNever';
+import { HistoryService } from '../services/historyService';
+import { siteRulesMatcher } from '../utils/siteRulesMatcher';
+import { isWebPage } from '../utils/domain';
 import DOMPurify from 'dompurify';
+import { LockService } from '../services/lockService';
+import { LockDialogService } from '../services/lockDialogService';
+import { isLooseningAddition, isLooseningEdit, isLooseningRemoval } from '../utils/ruleStrictness';
+import { CommitmentLockedError, CommitmentService } from '../services/commitmentService';
+import { Commitment, CommitmentMode } from '../types/Commitment';
+import { HalalModeService } from '../services/halalModeService';
+import { HalalCategory } from '../types/HalalMode';
+import { HidingRulesService } from '../services/hidingRulesService';
 
 /**
  * Controller class for the options page functionality.
@@ -30,13 +53,26 @@ class OptionsController {
   /** Form management service instance */
   private formService: FormService;
 
+  /** PIN lock dialog service instance */
+  private lockDialogService: LockDialogService;
+
   /** ID of the rule currently being edited (null if adding new rule) */
   private editingRuleId: string | null = null;
 
+  /** Validated import file waiting for confirmation (null if none) */
+  private pendingImport: RuleImportResult | null = null;
+
+  /** ID of the profile whose rules are shown and edited */
+  private editedProfileId: string = DEFAULT_PROFILE_ID;
+
+  /** Open tabs and recently visited sites used to preview pattern matches */
+  private previewUrls: string[] = [];
+
   constructor() {
     this.rulesService = RulesService.getInstance();
     this.uiService = UIService.getInstance();
     this.formService = FormService.getInstance();
+    this.lockDialogService = LockDialogService.getInstance();
 
     this.initialize();
   }
@@ -60,8 +96,1252 @@ class OptionsController {
     // Set up form controls
     this.setupFormControls();
 
+    // Start with the rules of the active profile
+    this.editedProfileId = await ProfileService.getInstance().getActiveProfileId();
+    this.rulesService.setProfile(this.editedProfileId);
+    await this.setupProfileControls();
+
     // Load and render initial rules
     await this.loadAndRenderRules();
+
+    // Load the limit warning, override, element hiding and Halal Mode settings
+    await this.setupLimitWarningSettings();
+    await this.setupOverrideSettings();
+    await this.setupElementHidingSettings();
+    await this.setupHalalModeSettings();
+
+    // Set up the PIN lock and the commitment lock
+    await this.setupLockControls();
+    await this.setupCommitmentControls();
+
+    // Set up rule import and export
+    this.setupTransferControls();
+
+    // Set up the rule tester
+    this.setupRuleTester();
+
+    // Validate the pattern as it is typed and preview its matches
+    await this.setupPatternFeedback();
+  }
+
+  /**
+   * Set up the profile selector and the profile management buttons.
+   */
+  private async setupProfileControls(): Promise<void> {
+    const profileSelect = document.getElementById('profile-select') as HTMLSelectElement;
+    const activateBtn = document.getElementById('profile-activate-btn') as HTMLButtonElement;
+    const newBtn = document.getElementById('profile-new-btn') as HTMLButtonElement;
+    const renameBtn = document.getElementById('profile-rename-btn') as HTMLButtonElement;
+    const deleteBtn = document.getElementById('profile-delete-btn') as HTMLButtonElement;
+    const copyBtn = document.getElementById('profile-copy-btn') as HTMLButtonElement;
+
+    profileSelect?.addEventListener('change', () => {
+      this.switchEditedProfile(profileSelect.value);
+    });
+
+    activateBtn?.addEventListener('click', async () => {
+      if (!(await this.lockDialogService.requireUnlock('switch the active profile'))) return;
+      try {
+        await ProfileService.getInstance().setActiveProfile(this.editedProfileId);
+        await this.renderProfileControls();
+        this.formService.showSuccess('Profile is now active');
+      } catch (error) {
+        this.reportChangeError(error, 'Error activating profile');
+      }
+    });
+
+    newBtn?.addEventListener('click', () => {
+      this.handleCreateProfile();
+    });
+
+    renameBtn?.addEventListener('click', () => {
+      this.handleRenameProfile();
+    });
+
+    deleteBtn?.addEventListener('click', () => {
+      this.handleDeleteProfile();
+    });
+
+    copyBtn?.addEventListener('click', () => {
+      this.handleCopyRules();
+    });
+
+    // Follow profile changes made in the popup or in other options tabs
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && STORAGE_KEYS.PROFILES in changes) {
+        this.renderProfileControls();
+      }
+    });
+
+    await this.renderProfileControls();
+  }
+
+  /**
+   * Show the profiles in the selectors and mark whether the edited profile is active.
+   */
+  private async renderProfileControls(): Promise<void> {
+    const profileSelect = document.getElementById('profile-select') as HTMLSelectElement;
+    const copyTargetSelect = document.getElementById('profile-copy-target') as HTMLSelectElement;
+    const activeBadge = document.getElementById('profile-active-badge');
+    const activateBtn = document.getElementById('profile-activate-btn') as HTMLButtonElement;
+    const deleteBtn = document.getElementById('profile-delete-btn') as HTMLButtonElement;
+    const copyBtn = document.getElementById('profile-copy-btn') as HTMLButtonElement;
+    if (!profileSelect || !copyTargetSelect) return;
+
+    const profileService = ProfileService.getInstance();
+    const { profiles } = await profileService.loadProfiles();
+    const activeProfileId = await profileService.getActiveProfileId();
+
+    // The edited profile may have been deleted elsewhere
+    if (!profiles.some(profile => profile.id === this.editedProfileId)) {
+      await this.switchEditedProfile(activeProfileId);
+      return;
+    }
+
+    const createOption = (id: string, name: string) => {
+      const option = document.createElement('option');
+      option.value = id;
+      option.textContent = name;
+      return option;
+    };
+
+    profileSelect.replaceChildren(...profiles.map(profile =>
+      createOption(profile.id, profile.id === activeProfileId ? `${profile.name} (active)` : profile.name)
+    ));
+    profileSelect.value = this.editedProfileId;
+
+    const copyTargets = profiles.filter(profile => profile.id !== this.editedProfileId);
+    copyTargetSelect.replaceChildren(...copyTargets.map(profile => createOption(profile.id, profile.name)));
+    copyTargetSelect.disabled = copyTargets.length === 0;
+    if (copyBtn) copyBtn.disabled = copyTargets.length === 0;
+
+    const isActive = this.editedProfileId === activeProfileId;
+    activeBadge?.classList.toggle('hidden', !isActive);
+    activateBtn?.classList.toggle('hidden', isActive);
+    if (deleteBtn) deleteBtn.disabled = this.editedProfileId === DEFAULT_PROFILE_ID;
+  }
+
+  /**
+   * Show and edit the rules of another profile.
+   * @param profileId - ID of the profile to edit
+   */
+  private async switchEditedProfile(profileId: string): Promise<void> {
+    if (this.editingRuleId) {
+      this.exitEditMode();
+    }
+    this.hideImportPanel();
+
+    this.editedProfileId = profileId;
+    this.rulesService.setProfile(profileId);
+    await this.renderProfileControls();
+    await this.loadAndRenderRules();
+  }
+
+  /**
+   * Ask for a name and create a new, empty profile.
+   */
+  private async handleCreateProfile(): Promise<void> {
+    const name = prompt('Name of the new profile (e.g., Work, Evening, Weekend):')?.trim();
+    if (!name) return;
+
+    try {
+      const profile = await ProfileService.getInstance().createProfile(name);
+      await this.switchEditedProfile(profile.id);
+      this.formService.showSuccess(`Profile "${name}" created`);
+    } catch (error) {
+      console.error('Error creating profile:', error);
+      alert('Error creating profile. Please try again.');
+    }
+  }
+
+  /**
+   * Ask for a new name for the edited profile.
+   */
+  private async handleRenameProfile(): Promise<void> {
+    const profileService = ProfileService.getInstance();
+    const { profiles } = await profileService.loadProfiles();
+    const current = profiles.find(profile => profile.id === this.editedProfileId);
+
+    const name = prompt('New name of the profile:', current?.name)?.trim();
+    if (!name) return;
+
+    try {
+      await profileService.renameProfile(this.editedProfileId, name);
+      await this.renderProfileControls();
+    } catch (error) {
+      console.error('Error renaming profile:', error);
+      alert('Error renaming profile. Please try again.');
+    }
+  }
+
+  /**
+   * Delete the edited profile and its rules after confirmation.
+   */
+  private async handleDeleteProfile(): Promise<void> {
+    if (this.editedProfileId === DEFAULT_PROFILE_ID) return;
+
+    if (!this.formService.showConfirmation('Delete this profile and all of its rules?')) {
+      return;
+    }
+    if (!(await this.lockDialogService.requireUnlock('delete this profile'))) return;
+
+    try {
+      await ProfileService.getInstance().deleteProfile(this.editedProfileId);
+      await this.switchEditedProfile(await ProfileService.getInstance().getActiveProfileId());
+      this.formService.showSuccess('Profile deleted');
+    } catch (error) {
+      this.reportChangeError(error, 'Error deleting profile');
+    }
+  }
+
+  /**
+   * Copy all rules of the edited profile to the chosen profile.
+   */
+  private async handleCopyRules(): Promise<void> {
+    const copyTargetSelect = document.getElementById('profile-copy-target') as HTMLSelectElement;
+    if (!copyTargetSelect?.value) return;
+
+    const copiesAllowRules = this.rulesService.getRules().some(rule => isLooseningAddition(rule, false));
+    if (copiesAllowRules && !(await this.lockDialogService.requireUnlock('copy Allow rules to another profile'))) return;
+
+    try {
+      const count = await this.rulesService.copyRulesToProfile(copyTargetSelect.value);
+      const targetName = copyTargetSelect.selectedOptions[0]?.textContent || 'profile';
+      this.formService.showSuccess(`Copied ${count} rule${count !== 1 ? 's' : ''} to ${targetName}`);
+    } catch (error) {
+      this.reportChangeError(error, 'Error copying rules');
+    }
+  }
+
+  /**
+   * Load the limit warning settings and save changes as they are made.
+   */
+  private async setupLimitWarningSettings(): Promise<void> {
+    const settingsService = SettingsService.getInstance();
+    const minutesInput = document.getElementById('limit-warning-minutes') as HTMLInputElement;
+    const graceInput = document.getElementById('limit-grace-minutes') as HTMLInputElement;
+    const toastCheckbox = document.getElementById('limit-warning-toast') as HTMLInputElement;
+    const notificationCheckbox = document.getElementById('limit-warning-notification') as HTMLInputElement;
+    if (!minutesInput || !graceInput || !toastCheckbox || !notificationCheckbox) return;
+
+    this.populateLimitWarningSettings(await settingsService.loadSettings());
+
+    minutesInput.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      const items = minutesInput.value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      const minutes = items.map(item => Number(item));
+
+      if (minutes.some(value => !Number.isInteger(value) || value < 1 || value > MAX_LIMIT_WARNING_MINUTES) || minutes.length > MAX_LIMIT_WARNINGS) {
+        alert(`Enter up to ${MAX_LIMIT_WARNINGS} whole numbers of minutes from 1 to ${MAX_LIMIT_WARNING_MINUTES}, separated by commas.`);
+        this.populateLimitWarningSettings(current);
+        return;
+      }
+
+      current.limitWarningMinutes = [...new Set(minutes)].sort((a, b) => b - a);
+      await settingsService.saveSettings(current);
+      this.populateLimitWarningSettings(current);
+    });
+
+    graceInput.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      const minutes = Number(graceInput.value);
+      if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_LIMIT_GRACE_MINUTES) {
+        alert(`Grace period must be between 0 and ${MAX_LIMIT_GRACE_MINUTES} minutes.`);
+        graceInput.value = current.limitGraceMinutes.toString();
+        return;
+      }
+
+      current.limitGraceMinutes = minutes;
+      await settingsService.saveSettings(current);
+    });
+
+    toastCheckbox.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      current.limitWarningToast = toastCheckbox.checked;
+      await settingsService.saveSettings(current);
+    });
+
+    notificationCheckbox.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      current.limitWarningNotification = notificationCheckbox.checked;
+      await settingsService.saveSettings(current);
+    });
+  }
+
+  /**
+   * Show the limit warning settings in their controls.
+   * @param settings - The current settings
+   */
+  private populateLimitWarningSettings(settings: PopupSettings): void {
+    const minutesInput = document.getElementById('limit-warning-minutes') as HTMLInputElement;
+    const graceInput = document.getElementById('limit-grace-minutes') as HTMLInputElement;
+    const toastCheckbox = document.getElementById('limit-warning-toast') as HTMLInputElement;
+    const notificationCheckbox = document.getElementById('limit-warning-notification') as HTMLInputElement;
+    if (!minutesInput || !graceInput || !toastCheckbox || !notificationCheckbox) return;
+
+    minutesInput.value = settings.limitWarningMinutes.join(', ');
+    graceInput.value = settings.limitGraceMinutes.toString();
+    toastCheckbox.checked = settings.limitWarningToast;
+    notificationCheckbox.checked = settings.limitWarningNotification;
+  }
+
+  /**
+   * Load the "Continue anyway" settings into their controls and save changes.
+   */
+  private async setupOverrideSettings(): Promise<void> {
+    const settingsService = SettingsService.getInstance();
+    const frictionSelect = document.getElementById('override-friction') as HTMLSelectElement;
+    const minutesInput = document.getElementById('override-minutes') as HTMLInputElement;
+    if (!frictionSelect || !minutesInput) return;
+
+    this.populateOverrideSettings(await settingsService.loadSettings());
+
+    frictionSelect.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      current.overrideFriction = frictionSelect.value as OverrideFriction;
+      await settingsService.saveSettings(current);
+      minutesInput.disabled = current.overrideFriction === OverrideFriction.Disabled;
+    });
+
+    minutesInput.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const minutes = parseInt(minutesInput.value, 10);
+      if (isNaN(minutes) || minutes < 1 || minutes > 240) {
+        alert('Override duration must be between 1 and 240 minutes.');
+        minutesInput.value = (await settingsService.loadSettings()).overrideMinutes.toString();
+        return;
+      }
+
+      const current = await settingsService.loadSettings();
+      current.overrideMinutes = minutes;
+      await settingsService.saveSettings(current);
+    });
+  }
+
+  /**
+   * Show the override settings in their controls.
+   * @param settings - The current settings
+   */
+  private populateOverrideSettings(settings: PopupSettings): void {
+    const frictionSelect = document.getElementById('override-friction') as HTMLSelectElement;
+    const minutesInput = document.getElementById('override-minutes') as HTMLInputElement;
+    if (!frictionSelect || !minutesInput) return;
+
+    frictionSelect.value = settings.overrideFriction;
+    minutesInput.value = settings.overrideMinutes.toString();
+    minutesInput.disabled = settings.overrideFriction === OverrideFriction.Disabled;
+  }
+
+  /**
+   * Show the built-in element hiding packs and the user's selectors, and save changes as they are made.
+   */
+  private async setupElementHidingSettings(): Promise<void> {
+    const settingsService = SettingsService.getInstance();
+    const hidingRulesService = HidingRulesService.getInstance();
+    const packsContainer = document.getElementById('hiding-packs');
+    const hostInput = document.getElementById('hiding-host') as HTMLInputElement;
+    const selectorInput = document.getElementById('hiding-selector') as HTMLInputElement;
+    const descriptionInput = document.getElementById('hiding-description') as HTMLInputElement;
+    const addBtn = document.getElementById('hiding-add-btn') as HTMLButtonElement;
+    if (!packsContainer || !hostInput || !selectorInput || !descriptionInput) return;
+
+    for (const pack of hidingRulesService.getOptionalPacks()) {
+      const label = document.createElement('label');
+      label.className = 'flex items-start gap-2 p-3 rounded-md border border-gray-200 text-sm text-gray-700';
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.name = 'hiding-pack';
+      checkbox.value = pack.id;
+      checkbox.className = 'mt-0.5 rounded border-gray-300 text-blue-600';
+      checkbox.addEventListener('change', async () => {
+        if (!(await this.unlockSettings())) return;
+        const current = await settingsService.loadSettings();
+        current.elementHidingPacks = checkbox.checked
+          ? [...new Set([...current.elementHidingPacks, pack.id])]
+          : current.elementHidingPacks.filter(id => id !== pack.id);
+        await settingsService.saveSettings(current);
+      });
+
+      const text = document.createElement('span');
+      const title = document.createElement('span');
+      title.className = 'block font-medium text-gray-900';
+      title.textContent = pack.title;
+      const description = document.createElement('span');
+      description.className = 'block text-xs text-gray-500';
+      description.textContent = pack.description;
+      text.append(title, description);
+
+      label.append(checkbox, text);
+      packsContainer.appendChild(label);
+    }
+
+    this.populateElementHidingSettings(await settingsService.loadSettings());
+    await this.renderCustomHidingRules();
+
+    addBtn?.addEventListener('click', async () => {
+      try {
+        await hidingRulesService.addCustomRule({
+          host: hostInput.value,
+          selector: selectorInput.value,
+          description: descriptionInput.value
+        });
+        hostInput.value = '';
+        selectorInput.value = '';
+        descriptionInput.value = '';
+        await this.renderCustomHidingRules();
+        this.formService.showSuccess('Selector added');
+      } catch (error) {
+        console.error('Error adding hiding selector:', error);
+        this.formService.showError(error instanceof Error ? error.message : 'Error adding selector');
+      }
+    });
+
+    // Follow selectors changed in another options tab
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && STORAGE_KEYS.HIDING_RULES in changes) {
+        this.renderCustomHidingRules();
+      }
+    });
+  }
+
+  /**
+   * Show which element hiding packs are turned on.
+   * @param settings - The current settings
+   */
+  private populateElementHidingSettings(settings: PopupSettings): void {
+    document.querySelectorAll<HTMLInputElement>('input[name="hiding-pack"]').forEach(checkbox => {
+      checkbox.checked = settings.elementHidingPacks.includes(checkbox.value);
+    });
+  }
+
+  /**
+   * Show the selectors added by the user, each with a delete button.
+   */
+  private async renderCustomHidingRules(): Promise<void> {
+    const list = document.getElementById('hiding-rules-list');
+    const empty = document.getElementById('hiding-rules-empty');
+    if (!list || !empty) return;
+
+    const rules = await HidingRulesService.getInstance().loadCustomRules();
+    list.replaceChildren();
+    empty.classList.toggle('hidden', rules.length > 0);
+
+    for (const rule of rules) {
+      const item = document.createElement('li');
+      item.className = 'flex items-center justify-between gap-3 py-2';
+
+      const text = document.createElement('div');
+      text.className = 'min-w-0';
+      const title = document.createElement('div');
+      title.className = 'text-sm font-medium text-gray-900 truncate';
+      title.textContent = `${rule.host}: ${rule.description}`;
+      const selector = document.createElement('div');
+      selector.className = 'text-xs text-gray-500 font-mono truncate';
+      selector.textContent = rule.selector;
+      text.append(title, selector);
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.type = 'button';
+      deleteBtn.className = 'px-3 py-1 text-xs font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100';
+      deleteBtn.textContent = 'Delete';
+      deleteBtn.addEventListener('click', async () => {
+        if (!(await this.unlockSettings())) return;
+        try {
+          await HidingRulesService.getInstance().deleteCustomRule(rule.id);
+          await this.renderCustomHidingRules();
+        } catch (error) {
+          console.error('Error deleting hiding selector:', error);
+          alert('Error deleting selector. Please try again.');
+        }
+      });
+
+      item.append(text, deleteBtn);
+      list.appendChild(item);
+    }
+  }
+
+  /**
+   * Load the Halal Mode settings and list into their controls and save changes as they are made.
+   */
+  private async setupHalalModeSettings(): Promise<void> {
+    const settingsService = SettingsService.getInstance();
+    const halalModeService = HalalModeService.getInstance();
+    const enabledCheckbox = document.getElementById('halal-mode-enabled') as HTMLInputElement;
+    const categoryCheckboxes = document.querySelectorAll<HTMLInputElement>('input[name="halal-category"]');
+    const safeSearchCheckbox = document.getElementById('halal-safe-search') as HTMLInputElement;
+    const blurCheckbox = document.getElementById('halal-blur-images') as HTMLInputElement;
+    const customInput = document.getElementById('halal-custom-domains') as HTMLTextAreaElement;
+    const allowedInput = document.getElementById('halal-allowed-domains') as HTMLTextAreaElement;
+    const saveBtn = document.getElementById('halal-domains-save-btn') as HTMLButtonElement;
+    const importBtn = document.getElementById('halal-list-import-btn') as HTMLButtonElement;
+    const resetBtn = document.getElementById('halal-list-reset-btn') as HTMLButtonElement;
+    const fileInput = document.getElementById('halal-list-file-input') as HTMLInputElement;
+    if (!enabledCheckbox || !safeSearchCheckbox || !blurCheckbox || !customInput || !allowedInput) return;
+
+    this.populateHalalModeSettings(await settingsService.loadSettings());
+    await this.renderHalalList();
+
+    enabledCheckbox.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      current.halalMode = enabledCheckbox.checked;
+      await settingsService.saveSettings(current);
+    });
+
+    categoryCheckboxes.forEach(checkbox => {
+      checkbox.addEventListener('change', async () => {
+        if (!(await this.unlockSettings())) return;
+        const current = await settingsService.loadSettings();
+        current.halalCategories = Array.from(categoryCheckboxes)
+          .filter(item => item.checked)
+          .map(item => item.value as HalalCategory);
+        await settingsService.saveSettings(current);
+      });
+    });
+
+    safeSearchCheckbox.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      current.halalSafeSearch = safeSearchCheckbox.checked;
+      await settingsService.saveSettings(current);
+    });
+
+    blurCheckbox.addEventListener('change', async () => {
+      if (!(await this.unlockSettings())) return;
+      const current = await settingsService.loadSettings();
+      current.halalBlurImages = blurCheckbox.checked;
+      await settingsService.saveSettings(current);
+    });
+
+    saveBtn?.addEventListener('click', async () => {
+      if (!(await this.unlockSettings())) return;
+      const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+      try {
+        await halalModeService.saveDomains(toLines(customInput.value), toLines(allowedInput.value));
+        await this.renderHalalList();
+        this.formService.showSuccess('Halal Mode domains saved');
+      } catch (error) {
+        console.error('Error saving Halal Mode domains:', error);
+        alert(error instanceof Error ? error.message : 'Error saving domains. Please try again.');
+      }
+    });
+
+    importBtn?.addEventListener('click', () => {
+      fileInput?.click();
+    });
+
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      // Reset so that choosing the same file again fires another change event
+      fileInput.value = '';
+      if (!file || !(await this.unlockSettings())) return;
+
+      try {
+        const list = await halalModeService.importList(await file.text());
+        await this.renderHalalList();
+        this.formService.showSuccess(`Halal Mode list ${list.version} imported`);
+      } catch (error) {
+        console.error('Error importing Halal Mode list:', error);
+        alert(`Could not import the list: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    });
+
+    resetBtn?.addEventListener('click', async () => {
+      if (!(await this.unlockSettings())) return;
+      try {
+        await halalModeService.useBundledList();
+        await this.renderHalalList();
+        this.formService.showSuccess('Using the bundled Halal Mode list');
+      } catch (error) {
+        console.error('Error resetting Halal Mode list:', error);
+        alert('Error resetting the list. Please try again.');
+      }
+    });
+
+    // Follow Halal Mode turned on or off in the popup
+    browser.storage.onChanged.addListener(async (changes, areaName) => {
+      if (areaName === 'sync' && STORAGE_KEYS.POPUP_SETTINGS in changes) {
+        this.populateHalalModeSettings(await settingsService.loadSettings());
+      }
+    });
+  }
+
+  /**
+   * Show the Halal Mode settings in their controls.
+   * @param settings - The current settings
+   */
+  private populateHalalModeSettings(settings: PopupSettings): void {
+    const enabledCheckbox = document.getElementById('halal-mode-enabled') as HTMLInputElement;
+    const safeSearchCheckbox = document.getElementById('halal-safe-search') as HTMLInputElement;
+    const blurCheckbox = document.getElementById('halal-blur-images') as HTMLInputElement;
+    if (!enabledCheckbox || !safeSearchCheckbox || !blurCheckbox) return;
+
+    enabledCheckbox.checked = settings.halalMode;
+    document.querySelectorAll<HTMLInputElement>('input[name="halal-category"]').forEach(checkbox => {
+      checkbox.checked = settings.halalCategories.includes(checkbox.value as HalalCategory);
+    });
+    safeSearchCheckbox.checked = settings.halalSafeSearch;
+    blurCheckbox.checked = settings.halalBlurImages;
+  }
+
+  /**
+   * Show the custom and never-blocked domains and which Halal Mode list is in use.
+   */
+  private async renderHalalList(): Promise<void> {
+    const customInput = document.getElementById('halal-custom-domains') as HTMLTextAreaElement;
+    const allowedInput = document.getElementById('halal-allowed-domains') as HTMLTextAreaElement;
+    const resetBtn = document.getElementById('halal-list-reset-btn') as HTMLButtonElement;
+    const info = document.getElementById('halal-list-info');
+    if (!customInput || !allowedInput || !resetBtn || !info) return;
+
+    const halalModeService = HalalModeService.getInstance();
+    const state = await halalModeService.loadListState();
+    const list = halalModeService.getList(state);
+    const domainCount = Object.values(list.domains).reduce((total, domains) => total + domains.length, 0);
+
+    customInput.value = state.customDomains.join('\n');
+    allowedInput.value = state.allowedDomains.join('\n');
+    resetBtn.classList.toggle('hidden', !state.importedList);
+    info.textContent = state.importedList
+      ? `Using list ${list.version} imported on ${new Date(state.importedAt || Date.now()).toLocaleDateString()} (${domainCount} domains).`
+      : `Using the bundled list ${list.version} (${domainCount} domains).`;
+  }
+
+  /**
+   * Ask for the PIN before a setting is changed. If it is not entered, the
+   * controls are reset to the saved settings.
+   * @returns Promise that resolves to true if the setting may be changed
+   */
+  private async unlockSettings(): Promise<boolean> {
+    if (await this.lockDialogService.requireUnlock('change settings')) return true;
+
+    const settings = await SettingsService.getInstance().loadSettings();
+    this.populateLimitWarningSettings(settings);
+    this.populateOverrideSettings(settings);
+    this.populateElementHidingSettings(settings);
+    this.populateHalalModeSettings(settings);
+    await this.renderHalalList();
+    return false;
+  }
+
+  /**
+   * Set up the buttons that set, change and remove the PIN lock.
+   */
+  private async setupLockControls(): Promise<void> {
+    const setBtn = document.getElementById('lock-set-btn') as HTMLButtonElement;
+    const removeBtn = document.getElementById('lock-remove-btn') as HTMLButtonElement;
+
+    setBtn?.addEventListener('click', () => {
+      this.handleSetPin();
+    });
+
+    removeBtn?.addEventListener('click', () => {
+      this.handleRemovePin();
+    });
+
+    // Follow a PIN set or removed in another options tab
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && STORAGE_KEYS.LOCK in changes) {
+        this.renderLockControls();
+      }
+    });
+
+    await this.renderLockControls();
+  }
+
+  /**
+   * Show whether a PIN is set and the matching buttons.
+   */
+  private async renderLockControls(): Promise<void> {
+    const status = document.getElementById('lock-status');
+    const setText = document.getElementById('lock-set-text');
+    const removeBtn = document.getElementById('lock-remove-btn') as HTMLButtonElement;
+    if (!status || !setText || !removeBtn) return;
+
+    const enabled = await LockService.getInstance().isLockEnabled();
+    status.textContent = enabled
+      ? 'A PIN is required to disable, delete or loosen rules, to switch profiles and to change settings.'
+      : 'No PIN is set. Anyone using this browser can change the rules.';
+    setText.textContent = enabled ? 'Change PIN' : 'Set PIN';
+    removeBtn.classList.toggle('hidden', !enabled);
+  }
+
+  /**
+   * Set a new PIN, after the current one if one is set, and show its recovery code.
+   */
+  private async handleSetPin(): Promise<void> {
+    if (!(await this.lockDialogService.requireUnlock('change the PIN'))) return;
+
+    const pin = await this.lockDialogService.promptNewPin();
+    if (!pin) return;
+
+    try {
+      const recoveryCode = await LockService.getInstance().setPin(pin);
+      await this.lockDialogService.showRecoveryCode(recoveryCode);
+      await this.renderLockControls();
+      this.formService.showSuccess('PIN set');
+    } catch (error) {
+      console.error('Error setting PIN:', error);
+      alert('Error setting PIN. Please try again.');
+    }
+  }
+
+  /**
+   * Remove the PIN after it is entered.
+   */
+  private async handleRemovePin(): Promise<void> {
+    const lockService = LockService.getInstance();
+    // Ask again even if the page is unlocked, so that a PIN left unlocked cannot be removed in passing
+    lockService.relock();
+    if (!(await this.lockDialogService.requireUnlock('remove the PIN'))) return;
+
+    try {
+      await lockService.removeLock();
+      await this.renderLockControls();
+      this.formService.showSuccess('PIN removed');
+    } catch (error) {
+      console.error('Error removing PIN:', error);
+      alert('Error removing PIN. Please try again.');
+    }
+  }
+
+  /**
+   * Set up the commitment lock controls and keep its status current.
+   */
+  private async setupCommitmentControls(): Promise<void> {
+    const modeRadios = document.querySelectorAll<HTMLInputElement>('input[name="commitment-mode"]');
+    const startBtn = document.getElementById('commitment-start-btn') as HTMLButtonElement;
+    const requestBtn = document.getElementById('commitment-request-btn') as HTMLButtonElement;
+    const endBtn = document.getElementById('commitment-end-btn') as HTMLButtonElement;
+
+    modeRadios.forEach(radio => {
+      radio.addEventListener('change', () => this.toggleCommitmentModeOptions());
+    });
+
+    startBtn?.addEventListener('click', () => {
+      this.handleStartCommitment();
+    });
+
+    requestBtn?.addEventListener('click', () => {
+      this.handleRequestCommitmentChange();
+    });
+
+    endBtn?.addEventListener('click', () => {
+      this.handleEndCommitment();
+    });
+
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && STORAGE_KEYS.COMMITMENT in changes) {
+        this.renderCommitmentControls();
+      }
+    });
+
+    // The status changes as the commitment ends or a requested change becomes possible
+    setInterval(() => this.renderCommitmentControls(), 30 * 1000);
+
+    this.toggleCommitmentModeOptions();
+    await this.renderCommitmentControls();
+  }
+
+  /**
+   * Show the end time or the delay option matching the selected commitment mode.
+   */
+  private toggleCommitmentModeOptions(): void {
+    const coolingOff = this.getSelectedCommitmentMode() === CommitmentMode.CoolingOff;
+    document.getElementById('commitment-until-options')?.classList.toggle('hidden', coolingOff);
+    document.getElementById('commitment-delay-options')?.classList.toggle('hidden', !coolingOff);
+  }
+
+  /**
+   * Get the commitment mode selected in the form.
+   * @returns The selected mode
+   */
+  private getSelectedCommitmentMode(): CommitmentMode {
+    const checked = document.querySelector<HTMLInputElement>('input[name="commitment-mode"]:checked');
+    return checked?.value === CommitmentMode.CoolingOff ? CommitmentMode.CoolingOff : CommitmentMode.Until;
+  }
+
+  /**
+   * Show the state of the commitment and the buttons that apply to it.
+   */
+  private async renderCommitmentControls(): Promise<void> {
+    const status = document.getElementById('commitment-status');
+    const startText = document.getElementById('commitment-start-text');
+    const requestBtn = document.getElementById('commitment-request-btn') as HTMLButtonElement;
+    const endBtn = document.getElementById('commitment-end-btn') as HTMLButtonElement;
+    if (!status || !startText || !requestBtn || !endBtn) return;
+
+    const commitmentService = CommitmentService.getInstance();
+    const { commitment, canLoosen, availableAt, availableUntil } = await commitmentService.getStatus();
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+    if (!commitment) {
+      status.textContent = 'No commitment is active. Rules can be changed freely.';
+    } else if (commitment.mode === CommitmentMode.Until) {
+      status.textContent = `Until ${formatTime(commitment.lockedUntil)}, rules can only be made stricter.`;
+    } else if (canLoosen && availableUntil) {
+      status.textContent = `Your requested change is possible now. Rules can be loosened until ${formatTime(availableUntil)}.`;
+    } else if (availableAt) {
+      status.textContent = `Change requested. Rules can be loosened from ${formatTime(availableAt)}.`;
+    } else {
+      status.textContent = `Rules can only be made stricter. To loosen them, request a change and wait ${commitmentService.formatDelay(commitment.delayMinutes)}.`;
+    }
+
+    startText.textContent = commitment ? 'Update commitment' : 'Start commitment';
+    requestBtn.classList.toggle('hidden', commitment?.mode !== CommitmentMode.CoolingOff || canLoosen || !!availableAt);
+    endBtn.classList.toggle('hidden', !commitment);
+    endBtn.disabled = !canLoosen;
+  }
+
+  /**
+   * Start a commitment with the chosen end or delay, or make the active one stricter.
+   */
+  private async handleStartCommitment(): Promise<void> {
+    const untilInput = document.getElementById('commitment-until') as HTMLInputElement;
+    const delaySelect = document.getElementById('commitment-delay') as HTMLSelectElement;
+    if (!untilInput || !delaySelect) return;
+
+    const commitmentService = CommitmentService.getInstance();
+    let commitment: Commitment;
+    let confirmation: string;
+    if (this.getSelectedCommitmentMode() === CommitmentMode.CoolingOff) {
+      const delayMinutes = parseInt(delaySelect.value, 10);
+      commitment = { mode: CommitmentMode.CoolingOff, delayMinutes, requestedAt: null };
+      confirmation = `From now on, loosening a rule needs a request and a ${commitmentService.formatDelay(delayMinutes)} wait. Continue?`;
+    } else {
+      // Date-time inputs are read in local time
+      const lockedUntil = untilInput.value ? new Date(untilInput.value).getTime() : NaN;
+      commitment = { mode: CommitmentMode.Until, lockedUntil };
+      confirmation = `Until ${new Date(lockedUntil).toLocaleString()}, rules can only be made stricter. This cannot be undone. Continue?`;
+    }
+
+    if (commitment.mode === CommitmentMode.Until && isNaN(commitment.lockedUntil)) {
+      this.formService.showError('Choose when the commitment ends');
+      return;
+    }
+    if (!this.formService.showConfirmation(confirmation)) return;
+
+    try {
+      await commitmentService.startCommitment(commitment);
+      await this.renderCommitmentControls();
+      this.formService.showSuccess('Commitment started');
+    } catch (error) {
+      if (error instanceof CommitmentLockedError) {
+        alert(`${error.message} Until then the commitment can only be made stricter.`);
+      } else {
+        console.error('Error starting commitment:', error);
+        alert((error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Request a loosening change under a cooling-off commitment.
+   */
+  private async handleRequestCommitmentChange(): Promise<void> {
+    try {
+      const { availableAt } = await CommitmentService.getInstance().requestChange();
+      await this.renderCommitmentControls();
+      if (availableAt) {
+        this.formService.showSuccess(`Change requested. Come back at ${new Date(availableAt).toLocaleTimeString()}.`);
+      }
+    } catch (error) {
+      console.error('Error requesting change:', error);
+      alert('Error requesting change. Please try again.');
+    }
+  }
+
+  /**
+   * End the commitment once rules can be loosened.
+   */
+  private async handleEndCommitment(): Promise<void> {
+    if (!this.formService.showConfirmation('End the commitment? Rules can then be loosened at any time.')) return;
+    if (!(await this.lockDialogService.requireUnlock('end the commitment'))) return;
+
+    try {
+      await CommitmentService.getInstance().endCommitment();
+      await this.renderCommitmentControls();
+      this.formService.showSuccess('Commitment ended');
+    } catch (error) {
+      this.reportChangeError(error, 'Error ending commitment');
+    }
+  }
+
+  /**
+   * Report a failed change. Changes refused by the commitment lock explain when they become possible.
+   * @param error - The error
+   * @param message - Message shown for other errors, e.g. "Error saving rule"
+   */
+  private reportChangeError(error: unknown, message: string): void {
+    if (error instanceof CommitmentLockedError) {
+      alert(error.message);
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    alert(`${message}. Please try again.`);
+  }
+
+  /**
+   * Set up the export and import buttons and the import confirmation panel.
+   */
+  private setupTransferControls(): void {
+    const exportBtn = document.getElementById('export-rules-btn') as HTMLButtonElement;
+    const importBtn = document.getElementById('import-rules-btn') as HTMLButtonElement;
+    const fileInput = document.getElementById('import-file-input') as HTMLInputElement;
+    const confirmBtn = document.getElementById('import-confirm-btn') as HTMLButtonElement;
+    const cancelBtn = document.getElementById('import-cancel-btn') as HTMLButtonElement;
+
+    exportBtn?.addEventListener('click', () => {
+      this.handleExport();
+    });
+
+    importBtn?.addEventListener('click', () => {
+      fileInput?.click();
+    });
+
+    fileInput?.addEventListener('change', async () => {
+      const file = fileInput.files?.[0];
+      // Reset so that choosing the same file again fires another change event
+      fileInput.value = '';
+      if (file) {
+        this.showImportPanel(file.name, TransferService.getInstance().parseDocument(await file.text()));
+      }
+    });
+
+    confirmBtn?.addEventListener('click', () => {
+      this.handleImport();
+    });
+
+    cancelBtn?.addEventListener('click', () => {
+      this.hideImportPanel();
+    });
+  }
+
+  /**
+   * Download the rules and settings as a JSON file.
+   */
+  private async handleExport(): Promise<void> {
+    try {
+      const exportDocument = await TransferService.getInstance().exportDocument();
+      const blob = new Blob([JSON.stringify(exportDocument, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `keep-me-focus-rules-${exportDocument.exportedAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      this.formService.showSuccess(`Exported ${exportDocument.rules.length} rule${exportDocument.rules.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      console.error('Error exporting rules:', error);
+      alert('Error exporting rules. Please try again.');
+    }
+  }
+
+  /**
+   * Show the result of validating an import file.
+   * Valid files can then be merged or used to replace the current rules.
+   * @param fileName - Name of the chosen file
+   * @param result - Validation result
+   */
+  private showImportPanel(fileName: string, result: RuleImportResult): void {
+    const panel = document.getElementById('import-panel');
+    const summary = document.getElementById('import-summary');
+    const errorList = document.getElementById('import-errors');
+    const options = document.getElementById('import-options');
+    const settingsLabel = document.getElementById('import-settings-label');
+    const settingsCheckbox = document.getElementById('import-settings') as HTMLInputElement;
+    if (!panel || !summary || !errorList || !options || !settingsLabel || !settingsCheckbox) return;
+
+    const hasErrors = result.errors.length > 0;
+    this.pendingImport = hasErrors ? null : result;
+
+    summary.textContent = hasErrors
+      ? `${fileName} cannot be imported:`
+      : `${fileName} contains ${result.rules.length} rule${result.rules.length !== 1 ? 's' : ''}${result.settings ? ' and settings' : ''}.`;
+
+    errorList.replaceChildren(...result.errors.map(error => {
+      const item = document.createElement('li');
+      item.textContent = error;
+      return item;
+    }));
+    errorList.classList.toggle('hidden', !hasErrors);
+
+    options.classList.toggle('hidden', hasErrors);
+    settingsLabel.classList.toggle('hidden', !result.settings);
+    settingsCheckbox.checked = false;
+
+    panel.classList.remove('hidden');
+  }
+
+  /**
+   * Hide the import panel and forget the pending import.
+   */
+  private hideImportPanel(): void {
+    this.pendingImport = null;
+    document.getElementById('import-panel')?.classList.add('hidden');
+  }
+
+  /**
+   * Import the pending file with the chosen options.
+   */
+  private async handleImport(): Promise<void> {
+    if (!this.pendingImport) return;
+
+    const mode = (document.querySelector('input[name="import-mode"]:checked') as HTMLInputElement)?.value === RuleImportMode.Replace
+      ? RuleImportMode.Replace
+      : RuleImportMode.Merge;
+    const includeSettings = (document.getElementById('import-settings') as HTMLInputElement)?.checked ?? false;
+
+    if (mode === RuleImportMode.Replace && !this.formService.showConfirmation('Replace all your current rules with the imported rules?')) {
+      return;
+    }
+
+    const loosens = mode === RuleImportMode.Replace || includeSettings
+      || this.pendingImport.rules.some(rule => isLooseningAddition(rule, false));
+    if (loosens && !(await this.lockDialogService.requireUnlock('import these rules'))) return;
+
+    try {
+      const imported = await TransferService.getInstance().importDocument(this.pendingImport, mode, includeSettings);
+      this.hideImportPanel();
+
+      // The rule being edited no longer exists after a replace
+      if (mode === RuleImportMode.Replace && this.editingRuleId) {
+        this.exitEditMode();
+      }
+
+      this.uiService.renderRules(this.rulesService.getRules());
+      if (includeSettings) {
+        const settings = await SettingsService.getInstance().loadSettings();
+        this.populateLimitWarningSettings(settings);
+        this.populateOverrideSettings(settings);
+      }
+
+      this.formService.showSuccess(`Imported ${imported.length} rule${imported.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      this.reportChangeError(error, 'Error importing rules');
+    }
+  }
+
+  /**
+   * Validate the pattern field while typing and preview which URLs it matches.
+   */
+  private async setupPatternFeedback(): Promise<void> {
+    const patternInput = document.getElementById('rule-pattern') as HTMLInputElement;
+    const matchTypeSelect = document.getElementById('rule-match-type') as HTMLSelectElement;
+
+    patternInput?.addEventListener('input', () => this.updatePatternFeedback());
+    matchTypeSelect?.addEventListener('change', () => this.updatePatternFeedback());
+
+    // Tabs change while the options page is in the background
+    window.addEventListener('focus', async () => {
+      await this.loadPreviewUrls();
+      this.updatePatternFeedback();
+    });
+
+    await this.loadPreviewUrls();
+    this.updatePatternFeedback();
+  }
+
+  /**
+   * Collect the URLs of open tabs and of sites visited in the last week.
+   */
+  private async loadPreviewUrls(): Promise<void> {
+    try {
+      const [tabs, history] = await Promise.all([
+        browser.tabs.query({}),
+        HistoryService.getInstance().loadHistory()
+      ]);
+
+      const weekStart = new Date();
+      weekStart.setDate(weekStart.getDate() - 6);
+      const weekStartKey = HistoryService.toDateKey(weekStart);
+
+      const tabUrls = tabs.map(tab => tab.url).filter((url): url is string => !!url && isWebPage(url));
+      const visitedUrls = Object.entries(history)
+        .filter(([dateKey]) => dateKey >= weekStartKey)
+        .flatMap(([, day]) => Object.keys(day.domains))
+        .map(domain => `https://${domain}/`);
+
+      this.previewUrls = Array.from(new Set([...tabUrls, ...visitedUrls]));
+    } catch (error) {
+      console.error('Error loading preview URLs:', error);
+      this.previewUrls = [];
+    }
+  }
+
+  /**
+   * Validate the current pattern and show which preview URLs it matches.
+   */
+  private updatePatternFeedback(): void {
+    const pattern = (document.getElementById('rule-pattern') as HTMLInputElement)?.value.trim() || '';
+    const matchType = (document.getElementById('rule-match-type') as HTMLSelectElement)?.value as SiteRuleMatchType;
+
+    // Do not complain about an empty field before anything was typed
+    if (!pattern || !matchType) {
+      this.uiService.renderPatternFeedback(null, [], 0);
+      return;
+    }
+
+    const validation = this.formService.validatePattern(pattern, matchType);
+    const matcher = siteRulesMatcher[matchType];
+    const matchedUrls = validation.error ? [] : this.previewUrls.filter(url => matcher(url, pattern));
+
+    this.uiService.renderPatternFeedback(validation, matchedUrls, this.previewUrls.length);
+  }
+
+  /**
+   * Set up the rule tester, which explains how the rules apply to a URL.
+   */
+  private setupRuleTester(): void {
+    const urlInput = document.getElementById('tester-url') as HTMLInputElement;
+    const runBtn = document.getElementById('tester-run-btn') as HTMLButtonElement;
+
+    runBtn?.addEventListener('click', () => {
+      this.handleTestUrl();
+    });
+
+    urlInput?.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        this.handleTestUrl();
+      }
+    });
+  }
+
+  /**
+   * Evaluate the rules of the edited profile against the URL in the tester.
+   */
+  private async handleTestUrl(): Promise<void> {
+    const urlInput = document.getElementById('tester-url') as HTMLInputElement;
+    let url = urlInput?.value.trim();
+    if (!url) {
+      this.formService.showError('Enter a URL to test');
+      return;
+    }
+
+    // Rules are evaluated against full URLs, so complete "example.com/page"
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+      url = `https://${url}`;
+      urlInput.value = url;
+    }
+
+    try {
+      const [usage, uptimeSec] = await Promise.all([
+        UsageService.getInstance().loadUsage(),
+        getUptimeSeconds()
+      ]);
+      this.renderTestResult(await this.rulesService.evaluateUrl(url, { usage, uptimeSec }));
+    } catch (error) {
+      console.error('Error testing URL:', error);
+      alert('Error testing URL. Please try again.');
+    }
+  }
+
+  /**
+   * Show the decision and the trace of every rule.
+   * @param evaluation - Result of evaluating the rules
+   */
+  private renderTestResult(evaluation: RuleEvaluation): void {
+    const result = document.getElementById('tester-result');
+    const decision = document.getElementById('tester-decision');
+    const traceList = document.getElementById('tester-trace');
+    if (!result || !decision || !traceList) return;
+
+    decision.textContent = this.describeDecision(evaluation);
+
+    const statusBadges: Record<RuleTraceStatus, { label: string; className: string }> = {
+      [RuleTraceStatus.Applied]: { label: 'Applies', className: 'bg-blue-100 text-blue-800' },
+      [RuleTraceStatus.Shadowed]: { label: 'Matches, not used', className: 'bg-yellow-100 text-yellow-800' },
+      [RuleTraceStatus.Disabled]: { label: 'Disabled', className: 'bg-gray-100 text-gray-600' },
+      [RuleTraceStatus.OutsideSchedule]: { label: 'Not scheduled now', className: 'bg-gray-100 text-gray-600' },
+      [RuleTraceStatus.NoMatch]: { label: 'No match', className: 'bg-gray-100 text-gray-600' },
+      [RuleTraceStatus.InvalidPattern]: { label: 'Invalid pattern', className: 'bg-red-100 text-red-800' }
+    };
+
+    if (evaluation.trace.length === 0) {
+      const item = document.createElement('li');
+      item.className = 'text-sm text-gray-400';
+      item.textContent = 'This profile has no rules yet';
+      traceList.replaceChildren(item);
+    } else {
+      traceList.replaceChildren(...evaluation.trace.map(({ rule, status, detail }, index) => {
+        const item = document.createElement('li');
+        item.className = 'flex items-start gap-3 text-sm';
+
+        const position = document.createElement('span');
+        position.className = 'text-gray-400 w-6 text-right flex-shrink-0';
+        position.textContent = `${index + 1}.`;
+
+        const badge = document.createElement('span');
+        badge.className = `inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${statusBadges[status].className}`;
+        badge.textContent = statusBadges[status].label;
+
+        const text = document.createElement('div');
+        text.className = 'min-w-0';
+        const title = document.createElement('div');
+        title.className = 'font-medium text-gray-900 truncate';
+        title.textContent = rule.title;
+        const explanation = document.createElement('div');
+        explanation.className = 'text-gray-500 break-all';
+        explanation.textContent = detail;
+        text.append(title, explanation);
+
+        item.append(position, badge, text);
+        return item;
+      }));
+    }
+
+    result.classList.remove('hidden');
+  }
+
+  /**
+   * Describe the decision of an evaluation in one sentence.
+   * @param evaluation - Result of evaluating the rules
+   * @returns Human-readable description
+   */
+  private describeDecision(evaluation: RuleEvaluation): string {
+    const title = evaluation.rule?.title || '';
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+    switch (evaluation.decision) {
+      case RuleDecision.None:
+        return 'No rule applies, the page opens.';
+      case RuleDecision.Allow:
+        return `Allowed by "${title}".`;
+      case RuleDecision.Block:
+        return `Blocked by "${title}".`;
+      case RuleDecision.Redirect:
+        return evaluation.redirectUrl
+          ? `Redirected by "${title}" to ${evaluation.redirectUrl}.`
+          : `"${title}" applies, but its target is not a valid URL for this page or leads back to it, so the page opens.`;
+      case RuleDecision.Exempt:
+        return `"${title}" applies, but it is paused by an override, so the page opens.`;
+      case RuleDecision.Focus:
+        return `Blocked by the running focus session until ${formatTime(evaluation.alert?.allowedAt || Date.now())}.`;
+      case RuleDecision.AllowlistMode:
+        return 'Blocked by allowlist mode, because no rule applies.';
+      case RuleDecision.HalalMode:
+        return `Blocked by ${evaluation.alert?.ruleTitle || 'Halal Mode'}, which takes precedence over the rules.`;
+      case RuleDecision.Limit: {
+        if (evaluation.limitStatus && !evaluation.limitStatus.allowed) {
+          const allowedAt = evaluation.limitStatus.allowedAt;
+          return `Limited by "${title}": not available now${allowedAt ? `, available again at ${formatTime(allowedAt)}` : ''}.`;
+        }
+        return evaluation.remainingMinutes !== undefined
+          ? `Limited by "${title}": ${evaluation.remainingMinutes} minute${evaluation.remainingMinutes !== 1 ? 's' : ''} left.`
+          : `Limited by "${title}": the page opens, no time budget applies.`;
+      }
+      default:
+        return assertNever(evaluation.decision);
+    }
   }
 
   /**
@@ -71,10 +1351,16 @@ class OptionsController {
     const actionSelect = document.getElementById('rule-action') as HTMLSelectElement;
     const saveRuleBtn = document.getElementById('save-rule-btn') as HTMLButtonElement;
     const cancelEditBtn = document.getElementById('cancel-edit-btn') as HTMLButtonElement;
+    const scheduleCheckbox = document.getElementById('rule-schedule-enabled') as HTMLInputElement;
 
-    // Toggle limit options based on action selection
+    // Toggle limit and redirect options based on action selection
     actionSelect?.addEventListener('change', () => {
-      this.uiService.toggleLimitOptions();
+      this.uiService.toggleActionOptions();
+    });
+
+    // Toggle schedule options based on the schedule checkbox
+    scheduleCheckbox?.addEventListener('change', () => {
+      this.uiService.toggleScheduleOptions();
     });
 
     // Save rule (add or update)
@@ -91,7 +1377,8 @@ class OptionsController {
     this.setupPresetButtons();
 
     // Initial state
-    this.uiService.toggleLimitOptions();
+    this.uiService.toggleActionOptions();
+    this.uiService.toggleScheduleOptions();
   }
   /**
    * Load rules from storage and render them in the UI.
@@ -114,6 +1401,12 @@ class OptionsController {
     const formData = this.formService.getFormData();
     if (!formData) return;
 
+    const editedRule = this.editingRuleId ? this.rulesService.getRuleById(this.editingRuleId) : null;
+    const loosens = editedRule
+      ? isLooseningEdit(editedRule, { ...editedRule, ...formData })
+      : isLooseningAddition({ ...formData, enabled: true }, false);
+    if (loosens && !(await this.lockDialogService.requireUnlock(editedRule ? 'loosen this rule' : 'add an Allow rule'))) return;
+
     try {
       if (this.editingRuleId) {
         // Update existing rule
@@ -121,7 +1414,8 @@ class OptionsController {
           title: formData.title,
           pattern: formData.pattern,
           matchType: formData.matchType,
-          action: formData.action
+          action: formData.action,
+          schedule: formData.schedule
         });
 
         if (updatedRule) {
@@ -135,32 +1429,46 @@ class OptionsController {
           pattern: formData.pattern,
           matchType: formData.matchType,
           action: formData.action,
+          schedule: formData.schedule,
           enabled: true
         });
 
         this.formService.showSuccess('Rule added successfully!');
         this.uiService.clearForm();
+        this.updatePatternFeedback();
       }
 
       // Refresh the rules list
       await this.loadAndRenderRules();
     } catch (error) {
-      console.error('Error saving rule:', error);
-      alert('Error saving rule. Please try again.');
+      this.reportChangeError(error, 'Error saving rule');
     }
   }
 
   private async handleRuleToggle(ruleId: string): Promise<void> {
+    const rule = this.rulesService.getRuleById(ruleId);
+    if (rule && isLooseningEdit(rule, { ...rule, enabled: !rule.enabled })
+      && !(await this.lockDialogService.requireUnlock(rule.enabled ? 'disable this rule' : 'enable this Allow rule'))) {
+      // Put the switch back
+      this.uiService.renderRules(this.rulesService.getRules());
+      return;
+    }
+
     try {
       await this.rulesService.toggleRule(ruleId);
       await this.loadAndRenderRules();
     } catch (error) {
-      console.error('Error toggling rule:', error);
+      this.reportChangeError(error, 'Error toggling rule');
+      // Put the switch back
+      this.uiService.renderRules(this.rulesService.getRules());
     }
   }
 
   private async handleRuleDelete(ruleId: string): Promise<void> {
     if (this.formService.showConfirmation('Are you sure you want to delete this rule?')) {
+      const rule = this.rulesService.getRuleById(ruleId);
+      if (rule && isLooseningRemoval(rule) && !(await this.lockDialogService.requireUnlock('delete this rule'))) return;
+
       try {
         const success = await this.rulesService.deleteRule(ruleId);
         if (success) {
@@ -173,8 +1481,7 @@ class OptionsController {
           }
         }
       } catch (error) {
-        console.error('Error deleting rule:', error);
-        alert('Error deleting rule. Please try again.');
+        this.reportChangeError(error, 'Error deleting rule');
       }
     }
   }
@@ -187,11 +1494,18 @@ class OptionsController {
   }
 
   private async handleRuleReorder(newOrder: string[]): Promise<void> {
+    // Moving a rule can let it take over pages of a stricter rule
+    if (!(await this.lockDialogService.requireUnlock('reorder rules'))) {
+      this.uiService.renderRules(this.rulesService.getRules());
+      return;
+    }
+
     try {
       await this.rulesService.reorderRules(newOrder);
       this.formService.showSuccess('Rules reordered successfully!');
     } catch (error) {
-      console.error('Error reordering rules:', error);
+      this.reportChangeError(error, 'Error reordering rules');
+      this.uiService.renderRules(this.rulesService.getRules());
     }
   }
 
@@ -200,6 +1514,7 @@ class OptionsController {
 
     // Populate form with rule data
     this.uiService.populateForm(rule);
+    this.updatePatternFeedback();
 
     // Update UI to show edit mode
     const saveRuleBtn = document.getElementById('save-rule-btn') as HTMLButtonElement;
@@ -229,6 +1544,7 @@ class OptionsController {
 
     // Reset form
     this.uiService.clearForm();
+    this.updatePatternFeedback();
 
     // Update UI to show add mode
     const saveRuleText = document.getElementById('save-rule-text') as HTMLSpanElement;
@@ -265,14 +1581,19 @@ class OptionsController {
       (document.getElementById('rule-reset-after-minutes') as HTMLInputElement).value = preset.action.resetAfterMinutes.toString();
       (document.getElementById('rule-delay-minutes') as HTMLInputElement).value = preset.action.delayMinutes.toString();
     } else {
-      // Clear limit fields if not a limit action (block or allow)
+      // Clear limit fields if not a limit action (block, allow or redirect)
       (document.getElementById('rule-allowed-minutes') as HTMLInputElement).value = '';
       (document.getElementById('rule-reset-after-minutes') as HTMLInputElement).value = '';
       (document.getElementById('rule-delay-minutes') as HTMLInputElement).value = '';
     }
+    (document.getElementById('rule-redirect-target') as HTMLInputElement).value = preset.action.type === 'redirect' ? preset.action.target : '';
+
+    // Presets are always active; clear any schedule left in the form
+    this.uiService.populateScheduleForm(undefined);
 
-    // Update the UI to show/hide limit options
-    this.uiService.toggleLimitOptions();
+    // Update the UI to show/hide limit and redirect options
+    this.uiService.toggleActionOptions();
+    this.updatePatternFeedback();
   }
 
   private setupPresetButtons(): void {
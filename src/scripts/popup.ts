@@ -9,8 +9,65 @@
 import '../styles/main.css';
 import browser from 'webextension-polyfill';
 import { RulesService } from '../services/rulesService';
+import { SettingsService } from '../services/settingsService';
+import { ProfileService } from '../services/profileService';
 import { STORAGE_KEYS } from '../config/storage';
 import { PopupSettings } from '../types/Popup';
+import { FocusSession, FocusSessionMode, FocusSessionPhase, FocusSessionSettings } from '../types/FocusSession';
+import { SiteRuleAction, SiteRuleActionType, SiteRuleMatchType } from '../types/SiteRule';
+import { RuleDecision, RuleEvaluation } from '../types/RuleEvaluation';
+import { UsageService } from '../services/usageService';
+import { getDomain } from '../utils/domain';
+import { getUptimeSeconds } from '../utils/uptime';
+import assertNever from '../utils/assertNever';
+import { LockDialogService } from '../services/lockDialogService';
+import { isLooseningAddition, isLooseningEdit } from '../utils/ruleStrictness';
+import { CommitmentLockedError } from '../services/commitmentService';
+
+/** Reset period of Limit rules created from the popup: one day, in minutes */
+const QUICK_LIMIT_RESET_MINUTES = 1440;
+
+/** ID prefix of rules created from the popup, so that they can be updated in place */
+const POPUP_RULE_ID_PREFIX = 'popup_';
+
+/**
+ * Toggle of a YouTube distraction setting.
+ */
+interface YouTubeToggle {
+  /** ID of the toggle's checkbox */
+  id: string;
+
+  /** Setting the toggle changes */
+  setting: 'hideYoutubeHomeFeed' | 'hideYoutubeSidebar' | 'hideYoutubeEndScreen' | 'disableYoutubeAutoplay';
+
+  /** What turning the toggle off allows, completing "Enter your PIN to ..." */
+  offReason: string;
+
+  /** Notifications shown after turning the toggle on and off */
+  on: string;
+  off: string;
+}
+
+/** Toggles of the YouTube distraction settings */
+const YOUTUBE_TOGGLES: YouTubeToggle[] = [
+  { id: 'hideYoutubeHomeFeedToggle', setting: 'hideYoutubeHomeFeed', offReason: 'show the YouTube homepage feed', on: 'YouTube homepage feed hidden', off: 'YouTube homepage feed shown' },
+  { id: 'hideYoutubeSidebarToggle', setting: 'hideYoutubeSidebar', offReason: 'show YouTube related videos', on: 'YouTube related videos hidden', off: 'YouTube related videos shown' },
+  { id: 'hideYoutubeEndScreenToggle', setting: 'hideYoutubeEndScreen', offReason: 'show YouTube end screens', on: 'YouTube end screens hidden', off: 'YouTube end screens shown' },
+  { id: 'disableYoutubeAutoplayToggle', setting: 'disableYoutubeAutoplay', offReason: 'allow YouTube autoplay', on: 'YouTube autoplay turned off', off: 'YouTube autoplay allowed' },
+];
+
+/** Badge label and colour of each decision in the current site panel */
+const DECISION_BADGES: Record<RuleDecision, { label: string; className: string } | null> = {
+  [RuleDecision.None]: null,
+  [RuleDecision.Allow]: { label: 'Allowed', className: 'bg-green-100 text-green-800' },
+  [RuleDecision.Block]: { label: 'Blocked', className: 'bg-red-100 text-red-800' },
+  [RuleDecision.Limit]: { label: 'Limited', className: 'bg-yellow-100 text-yellow-800' },
+  [RuleDecision.Redirect]: { label: 'Redirected', className: 'bg-blue-100 text-blue-800' },
+  [RuleDecision.Exempt]: { label: 'Paused', className: 'bg-yellow-100 text-yellow-800' },
+  [RuleDecision.Focus]: { label: 'Focus', className: 'bg-red-100 text-red-800' },
+  [RuleDecision.AllowlistMode]: { label: 'Blocked', className: 'bg-red-100 text-red-800' },
+  [RuleDecision.HalalMode]: { label: 'Blocked', className: 'bg-red-100 text-red-800' },
+};
 
 /**
  * Popup Controller Class
@@ -22,8 +79,22 @@ class PopupController {
   /** Service for managing site rules */
   private rulesService: RulesService;
 
+  /** Service for loading and saving popup settings */
+  private settingsService: SettingsService;
+
+  /** Service asking for the PIN before loosening changes */
+  private lockDialogService: LockDialogService;
+
+  /** Running focus session shown in the popup (null if none) */
+  private focusSession: FocusSession | null = null;
+
+  /** Active tab shown in the current site panel (null on pages rules do not apply to) */
+  private currentSite: { url: string; domain: string } | null = null;
+
   constructor() {
     this.rulesService = RulesService.getInstance();
+    this.settingsService = SettingsService.getInstance();
+    this.lockDialogService = LockDialogService.getInstance();
     this.initialize();
   }
 
@@ -38,8 +109,24 @@ class PopupController {
     // Set up event listeners for user interactions
     this.setupEventListeners();
 
-    // Update the rules count display
+    // Show the profiles and update the rules count display
+    await this.renderProfileSelect();
     await this.updateRulesCount();
+
+    // Show the active tab's site and the rule that applies to it
+    await this.loadCurrentSite();
+
+    // Show the focus session state and keep its countdown current
+    await this.loadFocusSession();
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && STORAGE_KEYS.FOCUS_SESSION in changes) {
+        this.loadFocusSession();
+      }
+      if (areaName === 'local' && (STORAGE_KEYS.RULE_USAGE in changes || STORAGE_KEYS.FOCUS_SESSION in changes)) {
+        this.renderCurrentSite();
+      }
+    });
+    setInterval(() => this.updateFocusSessionStatus(), 1000);
   }
 
   /**
@@ -52,15 +139,27 @@ class PopupController {
     // Get toggle elements
     const hideYoutubeShortsToggle = document.getElementById('hideYoutubeShortsToggle') as HTMLInputElement;
     const halalModeToggle = document.getElementById('halalModeToggle') as HTMLInputElement;
+    const allowlistModeToggle = document.getElementById('allowlistModeToggle') as HTMLInputElement;
 
     // Update toggle states to match settings
     if (hideYoutubeShortsToggle) {
       hideYoutubeShortsToggle.checked = settings.hideYoutubeShorts;
     }
 
+    YOUTUBE_TOGGLES.forEach(({ id, setting }) => {
+      const toggle = document.getElementById(id) as HTMLInputElement;
+      if (toggle) {
+        toggle.checked = settings[setting];
+      }
+    });
+
     if (halalModeToggle) {
       halalModeToggle.checked = settings.halalMode;
     }
+
+    if (allowlistModeToggle) {
+      allowlistModeToggle.checked = settings.allowlistMode;
+    }
   }
 
   /**
@@ -68,20 +167,7 @@ class PopupController {
    * @returns PopupSettings object with current preferences
    */
   private async loadSettings(): Promise<PopupSettings> {
-    try {
-      const result = await browser.storage.sync.get(STORAGE_KEYS.POPUP_SETTINGS);
-      const defaultSettings: PopupSettings = {
-        hideYoutubeShorts: true,
-        halalMode: false
-      };
-      return {
-        ...defaultSettings,
-        ...(result[STORAGE_KEYS.POPUP_SETTINGS] as PopupSettings || {})
-      };
-    } catch (error) {
-      console.error('Error loading popup settings:', error);
-      return { hideYoutubeShorts: true, halalMode: false };
-    }
+    return this.settingsService.loadSettings();
   }
 
   /**
@@ -89,11 +175,7 @@ class PopupController {
    * @param settings - The settings object to save
    */
   private async saveSettings(settings: PopupSettings): Promise<void> {
-    try {
-      await browser.storage.sync.set({ [STORAGE_KEYS.POPUP_SETTINGS]: settings });
-    } catch (error) {
-      console.error('Error saving popup settings:', error);
-    }
+    await this.settingsService.saveSettings(settings);
   }
 
   /**
@@ -103,24 +185,74 @@ class PopupController {
   private setupEventListeners(): void {
     const hideYoutubeShortsToggle = document.getElementById('hideYoutubeShortsToggle') as HTMLInputElement;
     const halalModeToggle = document.getElementById('halalModeToggle') as HTMLInputElement;
+    const allowlistModeToggle = document.getElementById('allowlistModeToggle') as HTMLInputElement;
     const openOptionsBtn = document.getElementById('openOptionsBtn') as HTMLButtonElement;
+    const openStatsBtn = document.getElementById('openStatsBtn') as HTMLButtonElement;
+    const focusStartBtn = document.getElementById('focusStartBtn') as HTMLButtonElement;
+    const focusStopBtn = document.getElementById('focusStopBtn') as HTMLButtonElement;
+    const focusModeRadios = document.querySelectorAll<HTMLInputElement>('input[name="focusSessionMode"]');
+    const profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+    const blockSiteBtn = document.getElementById('blockSiteBtn') as HTMLButtonElement;
+    const limitSiteBtn = document.getElementById('limitSiteBtn') as HTMLButtonElement;
+    const allowSiteBtn = document.getElementById('allowSiteBtn') as HTMLButtonElement;
+
+    // Handle one-click rules for the current site
+    if (blockSiteBtn) {
+      blockSiteBtn.addEventListener('click', () => this.addCurrentSiteRule(SiteRuleActionType.Block));
+    }
+
+    if (limitSiteBtn) {
+      limitSiteBtn.addEventListener('click', () => this.addCurrentSiteRule(SiteRuleActionType.Limit));
+    }
+
+    if (allowSiteBtn) {
+      allowSiteBtn.addEventListener('click', () => this.addCurrentSiteRule(SiteRuleActionType.Allow));
+    }
+
+    // Handle profile switches
+    if (profileSelect) {
+      profileSelect.addEventListener('change', () => this.switchProfile(profileSelect.value));
+    }
 
     // Handle YouTube Shorts toggle changes
     if (hideYoutubeShortsToggle) {
       hideYoutubeShortsToggle.addEventListener('change', async (e) => {
         const isEnabled = (e.target as HTMLInputElement).checked;
+        if (!(await this.unlockToggle(hideYoutubeShortsToggle, 'show YouTube Shorts'))) return;
         await this.toggleYoutubeShorts(isEnabled);
       });
     }
 
-    // Handle Halal Mode toggle changes (currently disabled)
+    // Handle YouTube distraction toggle changes
+    YOUTUBE_TOGGLES.forEach(({ id, setting, offReason, on, off }) => {
+      const toggle = document.getElementById(id) as HTMLInputElement;
+      if (toggle) {
+        toggle.addEventListener('change', async () => {
+          const isEnabled = toggle.checked;
+          if (!(await this.unlockToggle(toggle, offReason))) return;
+          await this.toggleSetting(setting, isEnabled, isEnabled ? on : off);
+        });
+      }
+    });
+
+    // Handle Halal Mode toggle changes
     if (halalModeToggle) {
       halalModeToggle.addEventListener('change', async (e) => {
         const isEnabled = (e.target as HTMLInputElement).checked;
+        if (!(await this.unlockToggle(halalModeToggle, 'turn off Halal Mode'))) return;
         await this.toggleHalalMode(isEnabled);
       });
     }
 
+    // Handle allowlist mode toggle changes
+    if (allowlistModeToggle) {
+      allowlistModeToggle.addEventListener('change', async (e) => {
+        const isEnabled = (e.target as HTMLInputElement).checked;
+        if (!(await this.unlockToggle(allowlistModeToggle, 'turn off allowlist mode'))) return;
+        await this.toggleAllowlistMode(isEnabled);
+      });
+    }
+
     // Handle options page button click
     if (openOptionsBtn) {
       openOptionsBtn.addEventListener('click', () => {
@@ -128,11 +260,377 @@ class PopupController {
         window.close();
       });
     }
+
+    // Handle statistics button click
+    if (openStatsBtn) {
+      openStatsBtn.addEventListener('click', () => {
+        browser.tabs.create({ url: browser.runtime.getURL('html/stats.html') });
+        window.close();
+      });
+    }
+
+    // Show the rules matching the chosen focus session mode
+    focusModeRadios.forEach(radio => {
+      radio.addEventListener('change', () => this.renderFocusRuleList());
+    });
+
+    // Handle focus session start and stop
+    if (focusStartBtn) {
+      focusStartBtn.addEventListener('click', () => this.startFocusSession());
+    }
+
+    if (focusStopBtn) {
+      focusStopBtn.addEventListener('click', () => this.stopFocusSession());
+    }
+  }
+
+  /**
+   * Ask for the PIN before a protection toggle is turned off. Turning it on never needs the PIN.
+   * If the PIN is not entered, the toggle is switched back on.
+   *
+   * @param toggle - The toggle that was changed
+   * @param reason - What turning it off does, completing "Enter your PIN to ..."
+   * @returns Promise that resolves to true if the change may be saved
+   */
+  private async unlockToggle(toggle: HTMLInputElement, reason: string): Promise<boolean> {
+    if (toggle.checked || await this.lockDialogService.requireUnlock(reason)) return true;
+
+    toggle.checked = true;
+    return false;
+  }
+
+  /**
+   * Fill the profile switcher with all profiles and select the active one.
+   */
+  private async renderProfileSelect(): Promise<void> {
+    const profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+    if (!profileSelect) return;
+
+    const profileService = ProfileService.getInstance();
+    const { profiles } = await profileService.loadProfiles();
+    const activeProfileId = await profileService.getActiveProfileId();
+
+    profileSelect.replaceChildren(...profiles.map(profile => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = profile.name;
+      option.selected = profile.id === activeProfileId;
+      return option;
+    }));
+  }
+
+  /**
+   * Activate another profile.
+   * Open tabs and network rules pick up the change from storage.
+   *
+   * @param profileId - ID of the profile to activate
+   */
+  private async switchProfile(profileId: string): Promise<void> {
+    if (!(await this.lockDialogService.requireUnlock('switch the active profile'))) {
+      await this.renderProfileSelect();
+      return;
+    }
+
+    try {
+      await ProfileService.getInstance().setActiveProfile(profileId);
+      await this.updateRulesCount();
+      await this.renderCurrentSite();
+      if (!this.focusSession) {
+        this.renderFocusRuleList();
+      }
+
+      const profileSelect = document.getElementById('profileSelect') as HTMLSelectElement;
+      this.showNotification(`Switched to ${profileSelect?.selectedOptions[0]?.textContent || 'profile'}`);
+    } catch (error) {
+      this.showChangeError(error, 'Error switching profile');
+      await this.renderProfileSelect();
+    }
+  }
+
+  /**
+   * Find the site of the active tab and show the current site panel.
+   * The panel stays hidden on pages rules do not apply to, such as browser pages.
+   */
+  private async loadCurrentSite(): Promise<void> {
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      const domain = tab?.url ? getDomain(tab.url) : null;
+      this.currentSite = tab?.url && domain ? { url: tab.url, domain } : null;
+    } catch (error) {
+      console.error('Error loading current site:', error);
+      this.currentSite = null;
+    }
+
+    await this.renderCurrentSite();
+  }
+
+  /**
+   * Show which rule applies to the current site and how much of its time is used.
+   */
+  private async renderCurrentSite(): Promise<void> {
+    const panel = document.getElementById('currentSitePanel');
+    const domainElement = document.getElementById('currentSiteDomain');
+    const badgeElement = document.getElementById('currentSiteBadge');
+    const ruleElement = document.getElementById('currentSiteRule');
+    const usageElement = document.getElementById('currentSiteUsage');
+    if (!panel || !domainElement || !badgeElement || !ruleElement || !usageElement) return;
+
+    panel.classList.toggle('hidden', !this.currentSite);
+    if (!this.currentSite) return;
+
+    try {
+      const usage = await UsageService.getInstance().loadUsage();
+      const evaluation = await this.rulesService.evaluateUrl(this.currentSite.url, { usage, uptimeSec: await getUptimeSeconds() });
+
+      domainElement.textContent = this.currentSite.domain;
+      ruleElement.textContent = this.describeCurrentSite(evaluation);
+
+      const badge = DECISION_BADGES[evaluation.decision];
+      badgeElement.classList.toggle('hidden', !badge);
+      if (badge) {
+        badgeElement.className = `px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${badge.className}`;
+        badgeElement.textContent = badge.label;
+      }
+
+      // Show the budget of the applying Limit rule
+      const action = evaluation.rule?.action;
+      const showUsage = evaluation.decision === RuleDecision.Limit && action?.type === SiteRuleActionType.Limit
+        && action.allowedMinutes > 0 && evaluation.remainingMinutes !== undefined;
+      usageElement.classList.toggle('hidden', !showUsage);
+      if (showUsage) {
+        const usedMinutes = Math.round(action.allowedMinutes - evaluation.remainingMinutes!);
+        const remainingMinutes = Math.floor(evaluation.remainingMinutes!);
+        usageElement.textContent = `${usedMinutes} of ${action.allowedMinutes} min used, ${remainingMinutes} min left`;
+      }
+    } catch (error) {
+      console.error('Error evaluating current site:', error);
+      ruleElement.textContent = 'Error loading rules';
+    }
+  }
+
+  /**
+   * Describe which rule applies to the current site.
+   * @param evaluation - How the rules apply to the site
+   * @returns Short description for the current site panel
+   */
+  private describeCurrentSite(evaluation: RuleEvaluation): string {
+    const title = evaluation.rule?.title || '';
+
+    switch (evaluation.decision) {
+      case RuleDecision.None:
+        return 'No rule applies to this site';
+      case RuleDecision.Allow:
+      case RuleDecision.Block:
+      case RuleDecision.Limit:
+      case RuleDecision.Redirect:
+        return `Rule: ${title}`;
+      case RuleDecision.Exempt:
+        return `Rule: ${title} (paused by an override)`;
+      case RuleDecision.Focus:
+        return 'Blocked by the running focus session';
+      case RuleDecision.AllowlistMode:
+        return 'Blocked by allowlist mode, no rule applies';
+      case RuleDecision.HalalMode:
+        return `Blocked by ${evaluation.alert?.ruleTitle || 'Halal Mode'}`;
+      default:
+        return assertNever(evaluation.decision);
+    }
+  }
+
+  /**
+   * Create a rule for the current site's domain (with its subdomains), evaluated before all others
+   * so that it takes effect right away. A rule the popup created earlier for the same domain is updated
+   * in place instead, so that e.g. turning a limit into a block is not taken for loosening the rules.
+   * Open tabs and network rules pick up the change from storage.
+   *
+   * @param actionType - What the new rule does
+   */
+  private async addCurrentSiteRule(actionType: Exclude<SiteRuleActionType, SiteRuleActionType.Redirect>): Promise<void> {
+    if (!this.currentSite) return;
+    const { domain } = this.currentSite;
+
+    let action: SiteRuleAction;
+    let title: string;
+    switch (actionType) {
+      case SiteRuleActionType.Block:
+        action = { type: SiteRuleActionType.Block };
+        title = `Block ${domain}`;
+        break;
+      case SiteRuleActionType.Allow:
+        action = { type: SiteRuleActionType.Allow };
+        title = `Allow ${domain}`;
+        break;
+      case SiteRuleActionType.Limit: {
+        const minutesSelect = document.getElementById('limitSiteMinutesSelect') as HTMLSelectElement;
+        const allowedMinutes = parseInt(minutesSelect?.value || '30', 10);
+        action = { type: SiteRuleActionType.Limit, allowedMinutes, resetAfterMinutes: QUICK_LIMIT_RESET_MINUTES, delayMinutes: 0 };
+        title = `Limit ${domain} (${allowedMinutes}min daily)`;
+        break;
+      }
+      default:
+        return assertNever(actionType);
+    }
+
+    const ruleData = { title, pattern: domain, matchType: SiteRuleMatchType.Domain, action, enabled: true };
+    const previousRule = this.rulesService.getRules()
+      .find(rule => rule.matchType === SiteRuleMatchType.Domain && rule.pattern === domain && rule.id.startsWith(POPUP_RULE_ID_PREFIX));
+
+    const loosens = previousRule ? isLooseningEdit(previousRule, { ...previousRule, ...ruleData }) : isLooseningAddition(ruleData, true);
+    if (loosens && !(await this.lockDialogService.requireUnlock(`add the rule "${title}"`))) return;
+
+    try {
+      if (previousRule) {
+        await this.rulesService.updateRule(previousRule.id, ruleData);
+      } else {
+        await this.rulesService.addRule(ruleData, true, POPUP_RULE_ID_PREFIX);
+      }
+
+      await this.updateRulesCount();
+      await this.renderCurrentSite();
+      this.showNotification(`${title} rule ${previousRule ? 'updated' : 'added'}`);
+    } catch (error) {
+      this.showChangeError(error, 'Error adding rule');
+    }
+  }
+
+  /**
+   * Load the running focus session and show either its status or the setup form.
+   */
+  private async loadFocusSession(): Promise<void> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.FOCUS_SESSION);
+      this.focusSession = (result[STORAGE_KEYS.FOCUS_SESSION] as FocusSession) || null;
+    } catch (error) {
+      console.error('Error loading focus session:', error);
+      this.focusSession = null;
+    }
+
+    document.getElementById('focusSessionActive')?.classList.toggle('hidden', !this.focusSession);
+    document.getElementById('focusSessionSetup')?.classList.toggle('hidden', !!this.focusSession);
+
+    if (this.focusSession) {
+      this.updateFocusSessionStatus();
+    } else {
+      this.renderFocusRuleList();
+    }
+  }
+
+  /**
+   * Update the phase and remaining time of the running focus session.
+   */
+  private updateFocusSessionStatus(): void {
+    const session = this.focusSession;
+    const phaseElement = document.getElementById('focusSessionPhase');
+    const remainingElement = document.getElementById('focusSessionRemaining');
+    if (!session || !phaseElement || !remainingElement) return;
+
+    const remainingSeconds = Math.max(0, Math.ceil((session.phaseEndsAt - Date.now()) / 1000));
+    const minutes = Math.floor(remainingSeconds / 60);
+    const seconds = (remainingSeconds % 60).toString().padStart(2, '0');
+
+    phaseElement.textContent = session.phase === FocusSessionPhase.Focus
+      ? `Focusing (${session.cycle} of ${session.cycles})`
+      : `Break (${session.cycle} of ${session.cycles} done)`;
+    remainingElement.textContent = `${minutes}:${seconds} remaining`;
+  }
+
+  /**
+   * Get the focus session mode selected in the setup form.
+   * @returns The selected mode
+   */
+  private getSelectedFocusMode(): FocusSessionMode {
+    const checked = document.querySelector<HTMLInputElement>('input[name="focusSessionMode"]:checked');
+    return checked?.value === FocusSessionMode.Allowlist ? FocusSessionMode.Allowlist : FocusSessionMode.BlockRules;
+  }
+
+  /**
+   * Render the rules that can be chosen for a focus session.
+   * Block rules are listed for the block mode and Allow rules for the allowlist mode.
+   */
+  private renderFocusRuleList(): void {
+    const listElement = document.getElementById('focusRuleList');
+    if (!listElement) return;
+
+    const actionType = this.getSelectedFocusMode() === FocusSessionMode.Allowlist ? SiteRuleActionType.Allow : SiteRuleActionType.Block;
+    const rules = this.rulesService.getRules().filter(rule => rule.action.type === actionType);
+
+    listElement.replaceChildren();
+
+    if (rules.length === 0) {
+      const emptyElement = document.createElement('div');
+      emptyElement.className = 'text-gray-400';
+      emptyElement.textContent = `No ${actionType} rules yet. Add some on the Manage Rules page.`;
+      listElement.appendChild(emptyElement);
+      return;
+    }
+
+    rules.forEach(rule => {
+      const label = document.createElement('label');
+      label.className = 'flex items-center gap-2';
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.name = 'focusRule';
+      checkbox.value = rule.id;
+      checkbox.checked = true;
+
+      const title = document.createElement('span');
+      title.className = 'truncate';
+      title.textContent = rule.title;
+      title.title = rule.pattern;
+
+      label.append(checkbox, title);
+      listElement.appendChild(label);
+    });
+  }
+
+  /**
+   * Start a focus session with the settings chosen in the setup form.
+   */
+  private async startFocusSession(): Promise<void> {
+    const ruleIds = Array.from(document.querySelectorAll<HTMLInputElement>('input[name="focusRule"]:checked'))
+      .map(checkbox => checkbox.value);
+
+    if (ruleIds.length === 0) {
+      this.showNotification('Choose at least one rule for the session', true);
+      return;
+    }
+
+    const settings: FocusSessionSettings = {
+      focusMinutes: parseInt((document.getElementById('focusMinutesSelect') as HTMLSelectElement).value, 10),
+      breakMinutes: parseInt((document.getElementById('breakMinutesSelect') as HTMLSelectElement).value, 10),
+      cycles: parseInt((document.getElementById('focusCyclesSelect') as HTMLSelectElement).value, 10),
+      mode: this.getSelectedFocusMode(),
+      ruleIds
+    };
+
+    try {
+      await browser.runtime.sendMessage({ action: 'startFocusSession', settings });
+      this.showNotification('Focus session started');
+    } catch (error) {
+      console.error('Error starting focus session:', error);
+      this.showNotification('Error starting focus session', true);
+    }
+  }
+
+  /**
+   * Stop the running focus session.
+   */
+  private async stopFocusSession(): Promise<void> {
+    if (!(await this.lockDialogService.requireUnlock('stop the focus session'))) return;
+
+    try {
+      await browser.runtime.sendMessage({ action: 'stopFocusSession' });
+      this.showNotification('Focus session stopped');
+    } catch (error) {
+      console.error('Error stopping focus session:', error);
+      this.showNotification('Error stopping focus session', true);
+    }
   }
 
   /**
    * Toggle YouTube Shorts hiding functionality.
-   * Saves setting and sends message to content scripts.
+   * Open YouTube tabs pick up the change from storage.
    * 
    * @param enabled - Whether YouTube Shorts should be hidden
    */
@@ -143,22 +641,6 @@ class PopupController {
       settings.hideYoutubeShorts = enabled;
       await this.saveSettings(settings);
 
-      // Send message to content scripts to apply/remove YouTube Shorts hiding
-      try {
-        const tabs = await browser.tabs.query({ url: "*://*.youtube.com/*" });
-        for (const tab of tabs) {
-          if (tab.id) {
-            await browser.tabs.sendMessage(tab.id, {
-              action: 'toggleYoutubeShorts',
-              enabled: enabled
-            });
-          }
-        }
-      } catch (error) {
-        // Content script might not be loaded yet, that's okay
-        console.log('Could not send message to YouTube tabs (this is normal if no YouTube tabs are open)');
-      }
-
       // Show user feedback
       this.showNotification(enabled ? 'YouTube Shorts hidden' : 'YouTube Shorts shown');
     } catch (error) {
@@ -168,9 +650,30 @@ class PopupController {
   }
 
   /**
-   * Toggle Halal Mode functionality (future feature).
-   * Currently only saves the setting and shows a notification.
-   * 
+   * Turn a YouTube distraction setting on or off.
+   * Open YouTube tabs pick up the change from storage.
+   *
+   * @param setting - The setting to change
+   * @param enabled - Whether the setting should be on
+   * @param message - Notification shown after saving
+   */
+  private async toggleSetting(setting: YouTubeToggle['setting'], enabled: boolean, message: string): Promise<void> {
+    try {
+      const settings = await this.loadSettings();
+      settings[setting] = enabled;
+      await this.saveSettings(settings);
+      this.showNotification(message);
+    } catch (error) {
+      console.error(`Error toggling ${setting}:`, error);
+      this.showNotification('Error updating setting', true);
+    }
+  }
+
+  /**
+   * Toggle Halal Mode, which blocks the sites of the Halal Mode list and filters search
+   * results and images as chosen on the options page.
+   * Open tabs and network rules pick up the change from storage.
+   *
    * @param enabled - Whether Halal Mode should be enabled
    */
   private async toggleHalalMode(enabled: boolean): Promise<void> {
@@ -180,14 +683,33 @@ class PopupController {
       settings.halalMode = enabled;
       await this.saveSettings(settings);
 
-      // Show coming soon message
-      this.showNotification('Halal Mode coming soon!');
+      this.showNotification(enabled ? 'Halal Mode on' : 'Halal Mode off');
     } catch (error) {
       console.error('Error toggling Halal Mode:', error);
       this.showNotification('Error updating setting', true);
     }
   }
 
+  /**
+   * Toggle allowlist mode, in which web pages not matched by any rule are blocked.
+   * Open tabs and network rules pick up the change from storage.
+   *
+   * @param enabled - Whether allowlist mode should be enabled
+   */
+  private async toggleAllowlistMode(enabled: boolean): Promise<void> {
+    try {
+      const settings = await this.loadSettings();
+      settings.allowlistMode = enabled;
+      await this.saveSettings(settings);
+      await this.renderCurrentSite();
+
+      this.showNotification(enabled ? 'Only sites with an Allow rule are open' : 'Allowlist mode turned off');
+    } catch (error) {
+      console.error('Error toggling allowlist mode:', error);
+      this.showNotification('Error updating setting', true);
+    }
+  }
+
   /**
    * Update the rules count display in the popup.
    * Shows how many site rules are currently active.
@@ -210,6 +732,22 @@ class PopupController {
     }
   }
 
+  /**
+   * Report a failed change. Changes refused by the commitment lock explain when they become possible.
+   *
+   * @param error - The error
+   * @param message - Message shown for other errors
+   */
+  private showChangeError(error: unknown, message: string): void {
+    if (error instanceof CommitmentLockedError) {
+      this.showNotification(error.message, true);
+      return;
+    }
+
+    console.error(`${message}:`, error);
+    this.showNotification(message, true);
+  }
+
   /**
    * Show a temporary notification to the user.
    * Creates a floating notification that auto-disappears.
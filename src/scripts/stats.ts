@@ -0,0 +1,273 @@
+/**
+ * Statistics Page Controller
+ *
+ * Controller for the usage statistics page. Reads the daily usage history
+ * recorded by the background script and shows time spent today, this week,
+ * per-site trends, how often each rule fired and the log of rule overrides.
+ */
+
+import '../styles/main.css';
+import DOMPurify from 'dompurify';
+import { HistoryService } from '../services/historyService';
+import { ProfileService } from '../services/profileService';
+import { OverrideService } from '../services/overrideService';
+import { RuleOverride } from '../types/RuleOverride';
+import { SiteRule } from '../types/SiteRule';
+import { getDomain } from '../utils/domain';
+import { DailyUsage, UsageHistory } from '../types/UsageHistory';
+
+/** Number of sites listed in the today and week summaries */
+const TOP_SITES_COUNT = 10;
+
+/** Number of days shown in the trends table */
+const TREND_DAYS = 14;
+
+/** Number of overrides shown in the override log */
+const OVERRIDE_LOG_COUNT = 50;
+
+/**
+ * Controller class for the statistics page.
+ */
+class StatsController {
+  /** Usage history service instance */
+  private historyService: HistoryService;
+
+  /** Rules of all profiles, used to resolve rule titles */
+  private rules: SiteRule[] = [];
+
+  constructor() {
+    this.historyService = HistoryService.getInstance();
+
+    this.initialize();
+  }
+
+  /**
+   * Load the history and render all sections.
+   */
+  private async initialize(): Promise<void> {
+    try {
+      const [history, rules, overrides] = await Promise.all([
+        this.historyService.loadHistory(),
+        ProfileService.getInstance().loadAllRules(),
+        OverrideService.getInstance().loadLog()
+      ]);
+      this.rules = rules;
+
+      const today = this.getDays(history, 1);
+      const week = this.getDays(history, 7);
+
+      this.renderSiteSummary('today', this.sumDomains(today));
+      this.renderSiteSummary('week', this.sumDomains(week));
+      this.renderTrends(this.getDays(history, TREND_DAYS));
+      this.renderRuleActivity(today, week);
+      this.renderOverrideLog(overrides);
+    } catch (error) {
+      console.error('Error loading statistics:', error);
+    }
+  }
+
+  /**
+   * Get the buckets of the last N days, oldest first.
+   * Days without any recorded usage are returned as empty buckets.
+   * @param history - The complete usage history
+   * @param count - Number of days including today
+   * @returns Array of [date key, bucket] pairs
+   */
+  private getDays(history: UsageHistory, count: number): Array<[string, DailyUsage]> {
+    const days: Array<[string, DailyUsage]> = [];
+    for (let i = count - 1; i >= 0; i--) {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      const dateKey = HistoryService.toDateKey(date);
+      days.push([dateKey, history[dateKey] || { domains: {}, rules: {}, ruleHits: {} }]);
+    }
+    return days;
+  }
+
+  /**
+   * Add up the time per domain over several days.
+   * @param days - Buckets to add up
+   * @returns Seconds per domain
+   */
+  private sumDomains(days: Array<[string, DailyUsage]>): Record<string, number> {
+    return this.sum(days.map(([, day]) => day.domains));
+  }
+
+  /**
+   * Add up several records of numbers key by key.
+   * @param records - Records to add up
+   * @returns Combined record
+   */
+  private sum(records: Array<Record<string, number>>): Record<string, number> {
+    const totals: Record<string, number> = {};
+    records.forEach(record => {
+      Object.entries(record).forEach(([key, value]) => {
+        totals[key] = (totals[key] || 0) + value;
+      });
+    });
+    return totals;
+  }
+
+  /**
+   * Render a total and the top sites list for a period.
+   * @param period - Element ID prefix ("today" or "week")
+   * @param domains - Seconds per domain
+   */
+  private renderSiteSummary(period: 'today' | 'week', domains: Record<string, number>): void {
+    const totalElement = document.getElementById(`${period}-total`);
+    const listElement = document.getElementById(`${period}-sites`);
+    if (!totalElement || !listElement) return;
+
+    const entries = Object.entries(domains).sort((a, b) => b[1] - a[1]);
+    const total = entries.reduce((acc, [, seconds]) => acc + seconds, 0);
+    totalElement.textContent = this.formatDuration(total);
+
+    if (entries.length === 0) {
+      listElement.innerHTML = DOMPurify.sanitize('<li class="text-sm text-gray-400">No browsing time recorded yet</li>');
+      return;
+    }
+
+    const max = entries[0][1];
+    listElement.innerHTML = DOMPurify.sanitize(entries.slice(0, TOP_SITES_COUNT).map(([domain, seconds]) => `
+      <li>
+        <div class="flex justify-between text-sm mb-1">
+          <span class="text-gray-900 truncate">${this.escapeHtml(domain)}</span>
+          <span class="text-gray-600 flex-shrink-0 ml-2">${this.formatDuration(seconds)}</span>
+        </div>
+        <div class="h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div class="h-2 bg-blue-500 rounded-full" style="width: ${Math.max(2, Math.round(seconds / max * 100))}%"></div>
+        </div>
+      </li>
+    `).join(''));
+  }
+
+  /**
+   * Render the per-site trends table.
+   * @param days - Buckets of the trend period, oldest first
+   */
+  private renderTrends(days: Array<[string, DailyUsage]>): void {
+    const headElement = document.getElementById('trends-head');
+    const bodyElement = document.getElementById('trends-body');
+    if (!headElement || !bodyElement) return;
+
+    const totals = Object.entries(this.sumDomains(days)).sort((a, b) => b[1] - a[1]).slice(0, TOP_SITES_COUNT);
+
+    headElement.innerHTML = DOMPurify.sanitize(`
+      <tr class="text-left text-gray-500">
+        <th class="py-2 pr-4 font-medium">Site</th>
+        ${days.map(([dateKey]) => `<th class="py-2 px-1 font-medium text-center text-xs">${dateKey.slice(5)}</th>`).join('')}
+        <th class="py-2 pl-4 font-medium">Total</th>
+      </tr>
+    `);
+
+    if (totals.length === 0) {
+      bodyElement.innerHTML = DOMPurify.sanitize(`<tr><td colspan="${days.length + 2}" class="py-4 text-gray-400">No browsing time recorded yet</td></tr>`);
+      return;
+    }
+
+    bodyElement.innerHTML = DOMPurify.sanitize(totals.map(([domain, total]) => {
+      const daily = days.map(([, day]) => day.domains[domain] || 0);
+      const max = Math.max(...daily);
+
+      return `
+        <tr>
+          <td class="py-2 pr-4 text-gray-900 whitespace-nowrap">${this.escapeHtml(domain)}</td>
+          ${daily.map(seconds => `
+            <td class="py-2 px-1 align-bottom" title="${this.formatDuration(seconds)}">
+              <div class="mx-auto w-3 bg-purple-500 rounded-sm" style="height: ${max > 0 ? Math.round(seconds / max * 32) : 0}px"></div>
+            </td>
+          `).join('')}
+          <td class="py-2 pl-4 text-gray-600 whitespace-nowrap">${this.formatDuration(total)}</td>
+        </tr>
+      `;
+    }).join(''));
+  }
+
+  /**
+   * Render time and hit counts per rule.
+   * @param today - Today's bucket
+   * @param week - Buckets of the last 7 days
+   */
+  private renderRuleActivity(today: Array<[string, DailyUsage]>, week: Array<[string, DailyUsage]>): void {
+    const bodyElement = document.getElementById('rule-activity');
+    if (!bodyElement) return;
+
+    const todayTime = this.sum(today.map(([, day]) => day.rules));
+    const weekTime = this.sum(week.map(([, day]) => day.rules));
+    const todayHits = this.sum(today.map(([, day]) => day.ruleHits));
+    const weekHits = this.sum(week.map(([, day]) => day.ruleHits));
+
+    const ruleIds = Array.from(new Set([...Object.keys(weekTime), ...Object.keys(weekHits)]))
+      .sort((a, b) => (weekHits[b] || 0) - (weekHits[a] || 0) || (weekTime[b] || 0) - (weekTime[a] || 0));
+
+    if (ruleIds.length === 0) {
+      bodyElement.innerHTML = DOMPurify.sanitize('<tr><td colspan="5" class="py-4 text-gray-400">No rule activity recorded yet</td></tr>');
+      return;
+    }
+
+    bodyElement.innerHTML = DOMPurify.sanitize(ruleIds.map(ruleId => {
+      const title = this.rules.find(rule => rule.id === ruleId)?.title || 'Deleted rule';
+      return `
+        <tr>
+          <td class="py-2 pr-4 text-gray-900">${this.escapeHtml(title)}</td>
+          <td class="py-2 pr-4 text-gray-600">${this.formatDuration(todayTime[ruleId] || 0)}</td>
+          <td class="py-2 pr-4 text-gray-600">${this.formatDuration(weekTime[ruleId] || 0)}</td>
+          <td class="py-2 pr-4 text-gray-600">${todayHits[ruleId] || 0}</td>
+          <td class="py-2 text-gray-600">${weekHits[ruleId] || 0}</td>
+        </tr>
+      `;
+    }).join(''));
+  }
+
+  /**
+   * Render the most recent rule overrides with their reasons.
+   * @param overrides - Logged overrides, newest first
+   */
+  private renderOverrideLog(overrides: RuleOverride[]): void {
+    const bodyElement = document.getElementById('override-log');
+    if (!bodyElement) return;
+
+    if (overrides.length === 0) {
+      bodyElement.innerHTML = DOMPurify.sanitize('<tr><td colspan="5" class="py-4 text-gray-400">No overrides recorded</td></tr>');
+      return;
+    }
+
+    bodyElement.innerHTML = DOMPurify.sanitize(overrides.slice(0, OVERRIDE_LOG_COUNT).map(override => `
+      <tr class="align-top">
+        <td class="py-2 pr-4 text-gray-600 whitespace-nowrap">${this.escapeHtml(new Date(override.grantedAt).toLocaleString())}</td>
+        <td class="py-2 pr-4 text-gray-900">${this.escapeHtml(override.ruleTitle)}</td>
+        <td class="py-2 pr-4 text-gray-600">${this.escapeHtml(getDomain(override.url) || override.url)}</td>
+        <td class="py-2 pr-4 text-gray-600 whitespace-nowrap">${this.formatDuration((override.expiresAt - override.grantedAt) / 1000)}</td>
+        <td class="py-2 text-gray-900">${this.escapeHtml(override.reason)}</td>
+      </tr>
+    `).join(''));
+  }
+
+  /**
+   * Format a duration for display.
+   * @param seconds - Duration in seconds
+   * @returns Formatted string (e.g., "1h 23m")
+   */
+  private formatDuration(seconds: number): string {
+    const totalMinutes = Math.round(seconds / 60);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  /**
+   * Escape HTML to prevent XSS attacks.
+   * @param text - Text to escape
+   * @returns HTML-safe escaped text
+   */
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
+
+// Initialize the statistics controller when DOM is ready
+document.addEventListener('DOMContentLoaded', () => {
+  new StatsController();
+});
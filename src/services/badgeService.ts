@@ -0,0 +1,201 @@
+/**
+ * Toolbar Badge Service
+ *
+ * Shows on the toolbar button what the rules do to the active tab: the minutes
+ * left of a Limit rule's budget, or whether the site is blocked or allowed.
+ * Limit badges turn amber from the first limit warning on. Badges are set per
+ * tab; the focus session countdown is the global badge and takes precedence
+ * while a focus phase runs.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { FocusSession } from '../types/FocusSession';
+import { RuleDecision, RuleEvaluation } from '../types/RuleEvaluation';
+import { RulesService } from './rulesService';
+import { UsageService } from './usageService';
+import { SettingsService } from './settingsService';
+import { FOCUS_BADGE_COLORS, FocusSessionService } from './focusSessionService';
+import { ALERT_PAGE_PATH } from '../utils/alertUrl';
+import { getUptimeSeconds } from '../utils/uptime';
+import assertNever from '../utils/assertNever';
+
+/** Name of the alarm that refreshes badges for schedules and limit resets */
+const BADGE_REFRESH_ALARM = 'keepMeFocus_badgeRefresh';
+
+/** Badge texts and colours */
+const BADGE_STYLES = {
+  blocked: { text: '✕', color: '#DC2626' },
+  allowed: { text: '✓', color: '#16A34A' },
+  exempt: { text: '✓', color: '#D97706' },
+  redirected: { text: '↪', color: '#2563EB' },
+  limit: { color: '#2563EB' },
+  limitWarning: { color: '#D97706' },
+};
+
+/**
+ * Badge shown on a tab.
+ */
+interface TabBadge {
+  /** Badge text */
+  text: string;
+
+  /** Badge background colour */
+  color: string;
+}
+
+/**
+ * Singleton service that keeps the toolbar badge of active tabs up to date.
+ */
+export class BadgeService {
+  /** Singleton instance */
+  private static instance: BadgeService;
+
+  /** Promise of the refresh currently in progress, used to serialize refreshes */
+  private refreshInProgress: Promise<void> = Promise.resolve();
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the badge service.
+   * @returns The BadgeService instance
+   */
+  public static getInstance(): BadgeService {
+    if (!BadgeService.instance) {
+      BadgeService.instance = new BadgeService();
+    }
+    return BadgeService.instance;
+  }
+
+  /**
+   * Start updating badges on tab changes, usage changes and periodically.
+   * Must be called synchronously when the background script loads so that
+   * events waking the background script are not missed.
+   */
+  public run(): void {
+    browser.tabs.onActivated.addListener(() => this.refresh());
+    browser.tabs.onUpdated.addListener((_tabId, changeInfo) => {
+      if (changeInfo.url || changeInfo.status === 'complete') this.refresh();
+    });
+
+    // Usage counters change as time is consumed
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      const localChanged = areaName === 'local' && (STORAGE_KEYS.RULE_USAGE in changes
+        || STORAGE_KEYS.FOCUS_SESSION in changes || STORAGE_KEYS.RULE_EXEMPTIONS in changes || STORAGE_KEYS.HALAL_LIST in changes);
+      const settingsChanged = areaName === 'sync' && STORAGE_KEYS.POPUP_SETTINGS in changes;
+      if (localChanged || settingsChanged) this.refresh();
+    });
+
+    browser.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === BADGE_REFRESH_ALARM) this.refresh();
+    });
+    browser.alarms.create(BADGE_REFRESH_ALARM, { periodInMinutes: 1 });
+
+    this.refresh();
+  }
+
+  /**
+   * Update the badge of the active tab of every window.
+   * Refreshes are serialized so that an older result never overwrites a newer one.
+   * @returns Promise that resolves when the badges are updated
+   */
+  public refresh(): Promise<void> {
+    this.refreshInProgress = this.refreshInProgress
+      .then(() => this.applyRefresh())
+      .catch(error => console.error('Error updating badge:', error));
+    return this.refreshInProgress;
+  }
+
+  /**
+   * Perform a single refresh.
+   */
+  private async applyRefresh(): Promise<void> {
+    const rulesService = RulesService.getInstance();
+    await rulesService.ensureRulesLoaded();
+
+    const focusSessionService = FocusSessionService.getInstance();
+    const session = await focusSessionService.loadSession();
+    const tabs = await browser.tabs.query({ active: true });
+    const usage = await UsageService.getInstance().loadUsage();
+    const uptimeSec = await getUptimeSeconds();
+    const { limitWarningMinutes } = await SettingsService.getInstance().loadSettings();
+    const warningMinutes = Math.max(0, ...limitWarningMinutes);
+
+    for (const tab of tabs) {
+      if (tab.id === undefined) continue;
+
+      // The focus countdown is the global badge
+      if (!tab.url || focusSessionService.isFocusActive(session)) {
+        await this.clearTabBadge(tab.id, session);
+        continue;
+      }
+
+      const badge = tab.url.startsWith(browser.runtime.getURL(ALERT_PAGE_PATH))
+        ? BADGE_STYLES.blocked
+        : this.getBadge(await rulesService.evaluateUrl(tab.url, { usage, uptimeSec }), warningMinutes);
+
+      if (badge) {
+        await browser.action.setBadgeText({ tabId: tab.id, text: badge.text });
+        await browser.action.setBadgeBackgroundColor({ tabId: tab.id, color: badge.color });
+      } else {
+        await this.clearTabBadge(tab.id, session);
+      }
+    }
+  }
+
+  /**
+   * Get the badge for the evaluation of a tab's URL.
+   * @param evaluation - How the rules apply to the URL
+   * @param warningMinutes - Remaining minutes at or below which a Limit badge turns amber (0 = never)
+   * @returns The badge, or null if no badge is shown
+   */
+  private getBadge(evaluation: RuleEvaluation, warningMinutes: number): TabBadge | null {
+    switch (evaluation.decision) {
+      case RuleDecision.None:
+        return null;
+      case RuleDecision.Allow:
+        return BADGE_STYLES.allowed;
+      case RuleDecision.Exempt:
+        return BADGE_STYLES.exempt;
+      case RuleDecision.Redirect:
+        return evaluation.redirectUrl ? BADGE_STYLES.redirected : null;
+      case RuleDecision.Block:
+      case RuleDecision.Focus:
+      case RuleDecision.AllowlistMode:
+      case RuleDecision.HalalMode:
+        return BADGE_STYLES.blocked;
+      case RuleDecision.Limit: {
+        if (evaluation.limitStatus && !evaluation.limitStatus.allowed) return BADGE_STYLES.blocked;
+        if (evaluation.remainingMinutes === undefined) return BADGE_STYLES.allowed;
+
+        const minutes = Math.floor(evaluation.remainingMinutes);
+        const { color } = evaluation.remainingMinutes <= warningMinutes ? BADGE_STYLES.limitWarning : BADGE_STYLES.limit;
+        return { text: this.formatMinutes(minutes), color };
+      }
+      default:
+        return assertNever(evaluation.decision);
+    }
+  }
+
+  /**
+   * Format remaining minutes to fit the badge.
+   * @param minutes - Whole minutes left
+   * @returns Text such as "45m" or "3h"
+   */
+  private formatMinutes(minutes: number): string {
+    return minutes < 100 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+  }
+
+  /**
+   * Remove a tab's own badge so that it shows the global one (focus session countdown).
+   * The colour is reset to the global colour as well, since a tab colour cannot be removed in every browser.
+   * @param tabId - ID of the tab
+   * @param session - The focus session, if one is running
+   */
+  private async clearTabBadge(tabId: number, session: FocusSession | null): Promise<void> {
+    await browser.action.setBadgeText({ tabId, text: null });
+    if (session) {
+      await browser.action.setBadgeBackgroundColor({ tabId, color: FOCUS_BADGE_COLORS[session.phase] });
+    }
+  }
+}
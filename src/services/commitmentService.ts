@@ -0,0 +1,214 @@
+/**
+ * Commitment Service
+ *
+ * Manages the commitment lock: while it is active, rules of the active profile
+ * can be made stricter but not looser, either until a chosen time or until a
+ * cooling-off delay has passed after the change was requested. RulesService and
+ * ProfileService check it before every loosening change, so no page can bypass it.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { Commitment, CommitmentMode, CommitmentStatus } from '../types/Commitment';
+import assertNever from '../utils/assertNever';
+
+/** Minutes during which rules can be loosened once a requested cooling-off delay has passed */
+export const COMMITMENT_CHANGE_WINDOW_MINUTES = 15;
+
+/** Longest cooling-off delay, in minutes (one week) */
+export const MAX_COOLING_OFF_MINUTES = 7 * 24 * 60;
+
+/** Latest end of a commitment, in days from now */
+export const MAX_COMMITMENT_DAYS = 365;
+
+/**
+ * Error thrown when a change would loosen the rules during a commitment.
+ * The message explains when the change becomes possible.
+ */
+export class CommitmentLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommitmentLockedError';
+  }
+}
+
+/**
+ * Singleton service for the commitment lock.
+ */
+export class CommitmentService {
+  /** Singleton instance */
+  private static instance: CommitmentService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the commitment service.
+   * @returns The CommitmentService instance
+   */
+  public static getInstance(): CommitmentService {
+    if (!CommitmentService.instance) {
+      CommitmentService.instance = new CommitmentService();
+    }
+    return CommitmentService.instance;
+  }
+
+  /**
+   * Load the active commitment. A commitment whose end has passed is no longer active.
+   * @param now - Current timestamp
+   * @returns Promise that resolves to the commitment, or null if none is active
+   */
+  public async loadCommitment(now: number = Date.now()): Promise<Commitment | null> {
+    try {
+      const result = await browser.storage.sync.get(STORAGE_KEYS.COMMITMENT);
+      const commitment = result[STORAGE_KEYS.COMMITMENT] as Commitment | undefined;
+      if (!commitment) return null;
+      return commitment.mode === CommitmentMode.Until && commitment.lockedUntil <= now ? null : commitment;
+    } catch (error) {
+      console.error('Error loading commitment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get whether rules can be loosened right now, and when they can be next.
+   * @param now - Current timestamp
+   * @returns Promise that resolves to the commitment status
+   */
+  public async getStatus(now: number = Date.now()): Promise<CommitmentStatus> {
+    const commitment = await this.loadCommitment(now);
+    if (!commitment) return { commitment, canLoosen: true };
+
+    switch (commitment.mode) {
+      case CommitmentMode.Until:
+        return { commitment, canLoosen: false, availableAt: commitment.lockedUntil };
+      case CommitmentMode.CoolingOff: {
+        if (commitment.requestedAt === null) return { commitment, canLoosen: false };
+
+        const availableAt = commitment.requestedAt + commitment.delayMinutes * 60 * 1000;
+        const availableUntil = availableAt + COMMITMENT_CHANGE_WINDOW_MINUTES * 60 * 1000;
+        if (now < availableAt) return { commitment, canLoosen: false, availableAt };
+        if (now < availableUntil) return { commitment, canLoosen: true, availableUntil };
+
+        // The window of the last request has closed
+        return { commitment, canLoosen: false };
+      }
+      default:
+        return assertNever(commitment);
+    }
+  }
+
+  /**
+   * Make sure rules can be loosened right now.
+   * @returns Promise that resolves if loosening is allowed
+   * @throws CommitmentLockedError explaining when the change becomes possible
+   */
+  public async assertCanLoosen(): Promise<void> {
+    const status = await this.getStatus();
+    if (status.canLoosen || !status.commitment) return;
+
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+    switch (status.commitment.mode) {
+      case CommitmentMode.Until:
+        throw new CommitmentLockedError(`Your commitment lasts until ${formatTime(status.commitment.lockedUntil)}. Until then rules can only be made stricter.`);
+      case CommitmentMode.CoolingOff:
+        throw new CommitmentLockedError(status.availableAt
+          ? `You requested a change. Rules can be loosened from ${formatTime(status.availableAt)}.`
+          : `Your commitment has a cooling-off delay. Request the change on the options page and wait ${this.formatDelay(status.commitment.delayMinutes)}.`);
+      default:
+        return assertNever(status.commitment);
+    }
+  }
+
+  /**
+   * Start a commitment, or replace the active one. While rules cannot be loosened,
+   * the active commitment can only be made stricter: a later end or a longer delay.
+   * @param commitment - The new commitment
+   * @returns Promise that resolves when the commitment is saved
+   * @throws Error if the commitment is invalid
+   * @throws CommitmentLockedError if it would loosen the active commitment
+   */
+  public async startCommitment(commitment: Commitment): Promise<void> {
+    const now = Date.now();
+
+    switch (commitment.mode) {
+      case CommitmentMode.Until:
+        if (!Number.isFinite(commitment.lockedUntil) || commitment.lockedUntil <= now) {
+          throw new Error('Choose an end in the future');
+        }
+        if (commitment.lockedUntil > now + MAX_COMMITMENT_DAYS * 24 * 60 * 60 * 1000) {
+          throw new Error(`A commitment can last at most ${MAX_COMMITMENT_DAYS} days`);
+        }
+        break;
+      case CommitmentMode.CoolingOff:
+        if (!Number.isInteger(commitment.delayMinutes) || commitment.delayMinutes < 1 || commitment.delayMinutes > MAX_COOLING_OFF_MINUTES) {
+          throw new Error(`The cooling-off delay must be between 1 minute and ${this.formatDelay(MAX_COOLING_OFF_MINUTES)}`);
+        }
+        break;
+      default:
+        return assertNever(commitment);
+    }
+
+    const current = await this.loadCommitment(now);
+    if (current && !this.isStricterCommitment(current, commitment)) {
+      await this.assertCanLoosen();
+    }
+
+    await browser.storage.sync.set({ [STORAGE_KEYS.COMMITMENT]: commitment });
+  }
+
+  /**
+   * Request a loosening change under a cooling-off commitment. Rules can be loosened
+   * once the delay has passed, for a limited window. A pending request is kept.
+   * @returns Promise that resolves to the updated status
+   */
+  public async requestChange(): Promise<CommitmentStatus> {
+    const now = Date.now();
+    const status = await this.getStatus(now);
+    if (status.commitment?.mode !== CommitmentMode.CoolingOff || status.canLoosen || status.availableAt) {
+      return status;
+    }
+
+    const commitment: Commitment = { ...status.commitment, requestedAt: now };
+    await browser.storage.sync.set({ [STORAGE_KEYS.COMMITMENT]: commitment });
+    return this.getStatus(now);
+  }
+
+  /**
+   * End the commitment. Ending it loosens the rules, so it is only possible when that is allowed.
+   * @returns Promise that resolves when the commitment is removed
+   * @throws CommitmentLockedError if rules cannot be loosened right now
+   */
+  public async endCommitment(): Promise<void> {
+    await this.assertCanLoosen();
+    await browser.storage.sync.remove(STORAGE_KEYS.COMMITMENT);
+  }
+
+  /**
+   * Format a delay in minutes, e.g. "15 minutes", "4 hours" or "1 day".
+   * @param minutes - The delay
+   * @returns The formatted delay
+   */
+  public formatDelay(minutes: number): string {
+    const [value, unit] = minutes % (24 * 60) === 0
+      ? [minutes / (24 * 60), 'day']
+      : minutes % 60 === 0 ? [minutes / 60, 'hour'] : [minutes, 'minute'];
+    return `${value} ${unit}${value !== 1 ? 's' : ''}`;
+  }
+
+  /**
+   * Check whether a new commitment is at least as strict as the current one.
+   * The new commitment must not bring a pending change request forward.
+   * @param current - The active commitment
+   * @param next - The new commitment
+   * @returns True if the new commitment is not looser
+   */
+  private isStricterCommitment(current: Commitment, next: Commitment): boolean {
+    if (current.mode === CommitmentMode.Until && next.mode === CommitmentMode.Until) {
+      return next.lockedUntil >= current.lockedUntil;
+    }
+    if (current.mode === CommitmentMode.CoolingOff && next.mode === CommitmentMode.CoolingOff) {
+      return next.delayMinutes >= current.delayMinutes && (next.requestedAt === null || next.requestedAt === current.requestedAt);
+    }
+    return false;
+  }
+}
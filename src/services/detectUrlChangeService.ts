@@ -2,11 +2,13 @@
  * URL Change Detection Service
  * 
  * Detects when the URL changes in Single Page Applications (SPAs) like YouTube.
- * Uses a polling mechanism to monitor URL changes and dispatches custom events
- * to notify other parts of the extension when navigation occurs.
+ * Listens to history, popstate, hashchange and Navigation API events, falls back to
+ * polling where the Navigation API is missing, and dispatches custom events to
+ * notify other parts of the extension when navigation occurs.
  */
 
 import SchedulerService from "./schedulerService";
+import { HISTORY_CHANGE_EVENT } from "../config/navigation";
 
 /**
  * Singleton service for detecting URL changes in web pages.
@@ -16,6 +18,9 @@ export default class DetectUrlChangeService {
   /** Singleton instance */
   private static instance: DetectUrlChangeService;
 
+  /** Last known URL, to detect changes */
+  private lastUrl: string | null = null;
+
   private constructor() { }
 
   /**
@@ -31,25 +36,36 @@ export default class DetectUrlChangeService {
 
   /**
    * Start monitoring URL changes.
-   * Sets up a scheduled task that periodically checks for URL changes
-   * and dispatches 'urlChanged' events when changes are detected.
+   * Navigation events trigger a check right away; the history hook running in the
+   * page world reports pushState and replaceState calls. Polling is only used when
+   * the browser lacks the Navigation API.
    */
   public run(): void {
-    /** Store the last known URL to detect changes */
-    let lastUrl: string | null = null;
-
-    // Add a scheduled task to check for URL changes periodically
-    SchedulerService.getInstance().addTask(async () => {
-      const currentUrl: string = window.location.href;
-
-      // Check if the URL has changed since the last check
-      if (currentUrl !== lastUrl) {
-        lastUrl = currentUrl;
-
-        // Dispatch a custom event to notify listeners of the URL change
-        const event = new CustomEvent('urlChanged', { detail: { url: currentUrl } });
-        window.dispatchEvent(event);
-      }
-    });
+    window.addEventListener(HISTORY_CHANGE_EVENT, () => this.checkUrl());
+    window.addEventListener('popstate', () => this.checkUrl());
+    window.addEventListener('hashchange', () => this.checkUrl());
+
+    const navigation = (window as Window & { navigation?: EventTarget }).navigation;
+    if (navigation) {
+      navigation.addEventListener('currententrychange', () => this.checkUrl());
+    } else {
+      SchedulerService.getInstance().addTask(() => this.checkUrl());
+    }
+
+    this.checkUrl();
+  }
+
+  /**
+   * Dispatch a 'urlChanged' event if the URL changed since the last check.
+   * Safe to call from several sources for the same navigation.
+   */
+  public checkUrl(): void {
+    const currentUrl: string = window.location.href;
+    if (currentUrl === this.lastUrl) return;
+    this.lastUrl = currentUrl;
+
+    // Dispatch a custom event to notify listeners of the URL change
+    const event = new CustomEvent('urlChanged', { detail: { url: currentUrl } });
+    window.dispatchEvent(event);
   }
-}
\ No newline at end of file
+}
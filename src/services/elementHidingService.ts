@@ -0,0 +1,261 @@
+/**
+ * Element Hiding Service
+ *
+ * Hides distracting elements of the current page, such as YouTube Shorts or
+ * feeds, from the built-in packs and the user's own selectors, and switches off
+ * features such as YouTube autoplay. Elements are hidden by a stylesheet injected
+ * at document start, with :has() selectors for entries hiding a container, so
+ * they never show up while the page loads. A mutation observer remains as the
+ * fallback for what a stylesheet cannot do: clicking elements, and hiding
+ * containers in browsers without :has(). Elements it hides are marked so that
+ * they can be shown again when an entry is turned off or no longer matches.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { ElementHidingEntry } from '../types/ElementHiding';
+import { HidingRulesService } from './hidingRulesService';
+import { SettingsService } from './settingsService';
+
+/** Attribute marking elements hidden by the extension */
+const HIDDEN_ATTRIBUTE = 'data-hidden-by-focus';
+
+/** ID of the style element hiding the elements of the active entries */
+const STYLE_ID = 'keepMeFocus-elementHiding';
+
+/**
+ * Singleton service hiding page elements (content script).
+ */
+export class ElementHidingService {
+  /** Entries applying to the current site that the stylesheet cannot handle alone */
+  private scriptEntries: ElementHidingEntry[] = [];
+
+  /** MutationObserver for watching DOM changes */
+  private observer: MutationObserver | null = null;
+
+  /** Animation frame of the next pass over the page, coalescing DOM changes */
+  private pendingFrame: number | null = null;
+
+  /** Whether the browser supports :has(), so that the stylesheet hides containers */
+  private readonly supportsHas = CSS.supports('selector(:has(*))');
+
+  /** Singleton instance */
+  private static instance: ElementHidingService | null = null;
+
+  private constructor() {
+    this.initialize();
+  }
+
+  /**
+   * Get singleton instance of ElementHidingService
+   */
+  public static getInstance(): ElementHidingService {
+    if (!ElementHidingService.instance) {
+      ElementHidingService.instance = new ElementHidingService();
+    }
+    return ElementHidingService.instance;
+  }
+
+  /**
+   * Initialize the element hiding service.
+   * Loads the active entries and follows changes to the settings and selectors.
+   */
+  private async initialize(): Promise<void> {
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'sync' && (STORAGE_KEYS.POPUP_SETTINGS in changes || STORAGE_KEYS.HIDING_RULES in changes)) {
+        this.refresh();
+      }
+    });
+
+    await this.refresh();
+  }
+
+  /**
+   * Reload the entries applying to the current site, show elements that are no
+   * longer hidden and start or stop hiding.
+   */
+  private async refresh(): Promise<void> {
+    let entries: ElementHidingEntry[];
+    try {
+      const hidingRulesService = HidingRulesService.getInstance();
+      const settings = await SettingsService.getInstance().loadSettings();
+      const customRules = await hidingRulesService.loadCustomRules();
+      entries = hidingRulesService.getActiveEntries(window.location.hostname, settings, customRules);
+    } catch (error) {
+      console.error('Error loading element hiding entries:', error);
+      entries = [];
+    }
+
+    this.updateStylesheet(entries);
+    this.scriptEntries = entries.filter(entry => entry.click || (entry.containers && !this.supportsHas));
+
+    this.stopHiding();
+    if (this.scriptEntries.length > 0) {
+      this.startHiding();
+    }
+  }
+
+  /**
+   * Inject the stylesheet hiding the elements of the entries, or remove it if nothing is hidden.
+   * Every entry gets its own rule, so that a selector the browser does not support only drops that entry.
+   * @param entries - Entries applying to the current site
+   */
+  private updateStylesheet(entries: ElementHidingEntry[]): void {
+    const css = entries
+      // A comment opener would swallow every rule after it
+      .filter(entry => !entry.click && !entry.selector.includes('/*'))
+      .flatMap(entry => this.getStyledSelectors(entry))
+      .map(selector => `${selector} { display: none !important; }`)
+      .join('\n');
+
+    const existing = document.getElementById(STYLE_ID);
+    if (!css) {
+      existing?.remove();
+      return;
+    }
+
+    const style = existing || document.createElement('style');
+    style.id = STYLE_ID;
+    style.textContent = css;
+    if (!existing) (document.head || document.documentElement).appendChild(style);
+  }
+
+  /**
+   * Get the selectors of the elements the stylesheet hides for an entry: the matched
+   * elements, or, where the browser supports :has(), every container holding one and
+   * the parent of each. Parents inside a container are hidden with it anyway.
+   * @param entry - The entry
+   * @returns The selectors
+   */
+  private getStyledSelectors(entry: ElementHidingEntry): string[] {
+    if (!entry.containers) return [entry.selector];
+    if (!this.supportsHas) return [];
+    return [
+      ...entry.containers.map(container => `:is(${container}):has(${entry.selector})`),
+      `:has(> :is(${entry.selector}))`
+    ];
+  }
+
+  /**
+   * Start hiding elements on the current page.
+   * Sets up DOM observation and hides existing content.
+   */
+  private startHiding(): void {
+    // Function to safely start DOM observation
+    const startObserving = () => {
+      if (document.body) {
+        // Set up mutation observer to watch for new content, once per frame at most
+        this.observer = new MutationObserver(() => {
+          if (this.pendingFrame !== null) return;
+          this.pendingFrame = requestAnimationFrame(() => {
+            this.pendingFrame = null;
+            this.hideElements();
+          });
+        });
+
+        this.observer.observe(document.body, {
+          childList: true,
+          subtree: true
+        });
+
+        // Hide existing elements immediately
+        this.hideElements();
+      } else if (document.readyState === 'loading') {
+        // Wait for DOM to be ready
+        document.addEventListener('DOMContentLoaded', startObserving, { once: true });
+      } else {
+        setTimeout(startObserving, 100);
+      }
+    };
+
+    startObserving();
+  }
+
+  /**
+   * Stop hiding elements and show previously hidden content.
+   * Disconnects the mutation observer and restores visibility.
+   */
+  private stopHiding(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+    if (this.pendingFrame !== null) {
+      cancelAnimationFrame(this.pendingFrame);
+      this.pendingFrame = null;
+    }
+
+    this.showElements();
+  }
+
+  /**
+   * Hide the containers of entries the stylesheet cannot handle in browsers without :has(),
+   * and click the elements of click entries. Elements hidden earlier that no entry matches any more, e.g. after
+   * in-page navigation reused them for another page, are shown again.
+   */
+  private hideElements(): void {
+    const targets = new Set<Element>();
+
+    for (const entry of this.scriptEntries) {
+      let matches: NodeListOf<Element>;
+      try {
+        matches = document.querySelectorAll(entry.selector);
+      } catch {
+        // Selectors are checked when they are added, but the page's browser may not support them
+        continue;
+      }
+
+      matches.forEach(element => {
+        if (entry.click) {
+          // Click entries match only while the element still needs a click, e.g. a switch that is on
+          if (element instanceof HTMLElement) element.click();
+          return;
+        }
+
+        const target = this.getTarget(element, entry);
+        if (!(target instanceof HTMLElement)) return;
+        targets.add(target);
+        if (!target.hasAttribute(HIDDEN_ATTRIBUTE)) {
+          target.style.display = 'none';
+          target.setAttribute(HIDDEN_ATTRIBUTE, 'true');
+        }
+      });
+    }
+
+    if (this.scriptEntries.some(entry => !entry.click)) {
+      this.showElements(element => !targets.has(element));
+    }
+  }
+
+  /**
+   * Get the element to hide for a matched element: the first container found,
+   * the parent if no container is found, or the element itself if the entry has no containers.
+   * @param element - The matched element
+   * @param entry - The entry that matched it
+   * @returns The element to hide
+   */
+  private getTarget(element: Element, entry: ElementHidingEntry): Element | null {
+    if (!entry.containers) return element;
+
+    for (const container of entry.containers) {
+      const target = element.closest(container);
+      if (target) return target;
+    }
+    return element.parentElement;
+  }
+
+  /**
+   * Show previously hidden elements.
+   * Restores visibility of elements marked as hidden by this extension.
+   * @param filter - Which of the hidden elements to show (default: all)
+   */
+  private showElements(filter: (element: Element) => boolean = () => true): void {
+    const hiddenElements = document.querySelectorAll(`[${HIDDEN_ATTRIBUTE}="true"]`);
+    hiddenElements.forEach(element => {
+      if (element instanceof HTMLElement && filter(element)) {
+        element.style.display = '';
+        element.removeAttribute(HIDDEN_ATTRIBUTE);
+      }
+    });
+  }
+}
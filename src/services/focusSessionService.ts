@@ -0,0 +1,300 @@
+/**
+ * Focus Session Service
+ *
+ * Manages timed focus sessions. While a focus phase runs, a chosen group of
+ * Block rules is enforced, or only pages matching the chosen Allow rules may
+ * be opened. The session state lives in local storage so that content scripts
+ * can evaluate it; the background script owns the timer, the toolbar badge
+ * countdown and the phase notifications.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { FocusBlock, FocusSession, FocusSessionMode, FocusSessionPhase, FocusSessionSettings } from '../types/FocusSession';
+import { SiteRule, SiteRuleActionType } from '../types/SiteRule';
+import { matchRule } from '../utils/ruleMatcher';
+import { isWebPage } from '../utils/domain';
+
+/** Name of the alarm that updates the badge and advances phases */
+const FOCUS_TICK_ALARM = 'keepMeFocus_focusTick';
+
+/** Name of the alarm that fires when the current phase ends */
+const FOCUS_PHASE_ALARM = 'keepMeFocus_focusPhaseEnd';
+
+/** Title shown on the alert page for pages outside the allowlist */
+export const FOCUS_ALLOWLIST_TITLE = 'Focus session allowlist';
+
+/** Badge colours per phase */
+export const FOCUS_BADGE_COLORS: Record<FocusSessionPhase, string> = {
+  [FocusSessionPhase.Focus]: '#DC2626',
+  [FocusSessionPhase.Break]: '#16A34A'
+};
+
+/** Longest focus phase offered by the popup, in minutes */
+const MAX_FOCUS_MINUTES = 50;
+
+/** Longest break offered by the popup, in minutes */
+const MAX_BREAK_MINUTES = 10;
+
+/** Most focus phases offered by the popup */
+const MAX_FOCUS_CYCLES = 4;
+
+/**
+ * Check whether a value received in a message holds valid focus session settings.
+ * @param value - The value to check
+ * @returns True if the phase lengths and cycles are whole numbers within the popup's ranges
+ */
+export function isFocusSessionSettings(value: unknown): value is FocusSessionSettings {
+  if (typeof value !== 'object' || value === null) return false;
+  const settings = value as Record<string, unknown>;
+
+  const isInRange = (number: unknown, min: number, max: number): boolean =>
+    Number.isInteger(number) && (number as number) >= min && (number as number) <= max;
+
+  return isInRange(settings.focusMinutes, 1, MAX_FOCUS_MINUTES)
+    && isInRange(settings.breakMinutes, 0, MAX_BREAK_MINUTES)
+    && isInRange(settings.cycles, 1, MAX_FOCUS_CYCLES)
+    && Object.values(FocusSessionMode).includes(settings.mode as FocusSessionMode)
+    && Array.isArray(settings.ruleIds)
+    && settings.ruleIds.every(ruleId => typeof ruleId === 'string');
+}
+
+/**
+ * Singleton service for starting, advancing and evaluating focus sessions.
+ */
+export class FocusSessionService {
+  /** Singleton instance */
+  private static instance: FocusSessionService;
+
+  /** Promise of the tick currently in progress, used to serialize ticks */
+  private tickInProgress: Promise<void> = Promise.resolve();
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the focus session service.
+   * @returns The FocusSessionService instance
+   */
+  public static getInstance(): FocusSessionService {
+    if (!FocusSessionService.instance) {
+      FocusSessionService.instance = new FocusSessionService();
+    }
+    return FocusSessionService.instance;
+  }
+
+  /**
+   * Start driving focus sessions: listen to the session alarms and refresh the badge.
+   * Must be called synchronously when the background script loads so that
+   * alarms waking the background script are not missed.
+   */
+  public run(): void {
+    browser.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === FOCUS_TICK_ALARM || alarm.name === FOCUS_PHASE_ALARM) this.tick();
+    });
+
+    this.tick();
+  }
+
+  /**
+   * Load the running focus session.
+   * @returns Promise that resolves to the session, or null if none is running
+   */
+  public async loadSession(): Promise<FocusSession | null> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.FOCUS_SESSION);
+      return (result[STORAGE_KEYS.FOCUS_SESSION] as FocusSession) || null;
+    } catch (error) {
+      console.error('Error loading focus session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Start a new focus session, replacing any running session.
+   * @param settings - Settings chosen for the session
+   * @returns Promise that resolves to the started session
+   */
+  public async startSession(settings: FocusSessionSettings): Promise<FocusSession> {
+    const now = Date.now();
+    const session: FocusSession = {
+      focusMinutes: settings.focusMinutes,
+      breakMinutes: settings.breakMinutes,
+      cycles: settings.cycles,
+      mode: settings.mode,
+      ruleIds: settings.ruleIds,
+      phase: FocusSessionPhase.Focus,
+      cycle: 1,
+      phaseEndsAt: now + settings.focusMinutes * 60 * 1000,
+      startedAt: now
+    };
+
+    await browser.storage.local.set({ [STORAGE_KEYS.FOCUS_SESSION]: session });
+    await this.tick();
+    return session;
+  }
+
+  /**
+   * Stop the running focus session and restore normal behavior.
+   * @returns Promise that resolves when the session is stopped
+   */
+  public async stopSession(): Promise<void> {
+    await browser.storage.local.remove(STORAGE_KEYS.FOCUS_SESSION);
+    await this.tick();
+  }
+
+  /**
+   * Check whether a session is in a focus phase that has not ended yet.
+   * Phase ends are evaluated against the clock so that restrictions lift on time
+   * even before the background script advances the session.
+   * @param session - The running session (if any)
+   * @param now - Current timestamp
+   * @returns True if restrictions should be enforced
+   */
+  public isFocusActive(session: FocusSession | null, now: number = Date.now()): session is FocusSession {
+    return !!session && session.phase === FocusSessionPhase.Focus && now < session.phaseEndsAt;
+  }
+
+  /**
+   * Get the rules chosen for a session, in rule order.
+   * Rules are used regardless of whether they are enabled or scheduled,
+   * but only rules of the type required by the session mode are returned.
+   * @param session - The running session
+   * @param rules - All site rules
+   * @returns The chosen rules
+   */
+  public getSessionRules(session: FocusSession, rules: SiteRule[]): SiteRule[] {
+    const actionType = session.mode === FocusSessionMode.Allowlist ? SiteRuleActionType.Allow : SiteRuleActionType.Block;
+    return rules.filter(rule => session.ruleIds.includes(rule.id) && rule.action.type === actionType);
+  }
+
+  /**
+   * Evaluate whether a focus session restricts a URL.
+   * Only web pages are restricted, so extension and browser pages stay reachable.
+   * @param session - The running session (if any)
+   * @param rules - All site rules
+   * @param url - The URL to evaluate
+   * @param now - Current timestamp
+   * @returns The restriction, or null if the URL may be opened
+   */
+  public getFocusBlock(session: FocusSession | null, rules: SiteRule[], url: string, now: number = Date.now()): FocusBlock | null {
+    if (!this.isFocusActive(session, now) || !isWebPage(url)) return null;
+
+    const matchingRule = this.getSessionRules(session, rules)
+      .find(rule => matchRule(rule, url) === true);
+
+    if (session.mode === FocusSessionMode.Allowlist) {
+      return matchingRule ? null : { ruleTitle: FOCUS_ALLOWLIST_TITLE, allowedAt: session.phaseEndsAt };
+    }
+
+    return matchingRule ? { ruleId: matchingRule.id, ruleTitle: matchingRule.title, allowedAt: session.phaseEndsAt } : null;
+  }
+
+  /**
+   * Advance the session past ended phases, refresh the badge and alarms.
+   * Ticks are serialized so that a phase is never advanced twice.
+   * @returns Promise that resolves when the tick is complete
+   */
+  public tick(): Promise<void> {
+    this.tickInProgress = this.tickInProgress
+      .then(() => this.applyTick())
+      .catch(error => console.error('Error updating focus session:', error));
+    return this.tickInProgress;
+  }
+
+  /**
+   * Perform a single tick.
+   */
+  private async applyTick(): Promise<void> {
+    const session = await this.loadSession();
+
+    if (!session) {
+      await browser.alarms.clear(FOCUS_TICK_ALARM);
+      await browser.alarms.clear(FOCUS_PHASE_ALARM);
+      await browser.action.setBadgeText({ text: '' });
+      return;
+    }
+
+    const now = Date.now();
+    if (now >= session.phaseEndsAt) {
+      const next = this.getNextPhase(session, now);
+      if (next) {
+        await browser.storage.local.set({ [STORAGE_KEYS.FOCUS_SESSION]: next });
+      } else {
+        await browser.storage.local.remove(STORAGE_KEYS.FOCUS_SESSION);
+      }
+      this.notifyPhaseEnd(session, next);
+
+      // Evaluate the new state on a fresh tick
+      return this.applyTick();
+    }
+
+    const remainingMinutes = Math.ceil((session.phaseEndsAt - now) / 60000);
+    await browser.action.setBadgeText({ text: `${remainingMinutes}m` });
+    await browser.action.setBadgeBackgroundColor({ color: FOCUS_BADGE_COLORS[session.phase] });
+
+    browser.alarms.create(FOCUS_PHASE_ALARM, { when: session.phaseEndsAt });
+    if (!(await browser.alarms.get(FOCUS_TICK_ALARM))) {
+      browser.alarms.create(FOCUS_TICK_ALARM, { periodInMinutes: 0.5 });
+    }
+  }
+
+  /**
+   * Compute the phase following the current one.
+   * Phases that ended while the browser was closed are skipped.
+   * @param session - The session whose phase has ended
+   * @param now - Current timestamp
+   * @returns The session in its next phase, or null if the session is over
+   */
+  private getNextPhase(session: FocusSession, now: number): FocusSession | null {
+    let next: FocusSession = session;
+
+    while (next.phaseEndsAt <= now) {
+      const endedAt = next.phaseEndsAt;
+
+      if (next.phase === FocusSessionPhase.Focus && next.cycle >= next.cycles) {
+        return null;
+      }
+
+      if (next.phase === FocusSessionPhase.Focus && next.breakMinutes > 0) {
+        next = { ...next, phase: FocusSessionPhase.Break, phaseEndsAt: endedAt + next.breakMinutes * 60 * 1000 };
+      } else {
+        next = { ...next, phase: FocusSessionPhase.Focus, cycle: next.cycle + 1, phaseEndsAt: endedAt + next.focusMinutes * 60 * 1000 };
+      }
+
+      // A phase without a positive length would never end, so the session is over
+      if (!(next.phaseEndsAt > endedAt)) {
+        return null;
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Show a notification when a phase ends.
+   * @param ended - The session in the phase that ended
+   * @param next - The session in its next phase, or null if the session is over
+   */
+  private notifyPhaseEnd(ended: FocusSession, next: FocusSession | null): void {
+    let title: string;
+    let message: string;
+
+    if (!next) {
+      title = 'Focus session complete';
+      message = `Well done! You completed ${ended.cycles} focus period${ended.cycles !== 1 ? 's' : ''}.`;
+    } else if (next.phase === FocusSessionPhase.Break) {
+      title = 'Time for a break';
+      message = `Focus period ${ended.cycle} of ${ended.cycles} is done. Enjoy a ${next.breakMinutes} minute break.`;
+    } else {
+      title = 'Back to focus';
+      message = `Focus period ${next.cycle} of ${next.cycles} has started (${next.focusMinutes} minutes).`;
+    }
+
+    browser.notifications.create({
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('icons/icon128.png'),
+      title,
+      message
+    }).catch(error => console.error('Error showing focus notification:', error));
+  }
+}
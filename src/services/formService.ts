@@ -5,7 +5,56 @@
  * Manages form state, validation, data processing, and user feedback for various UI components.
  */
 
-import { SiteRule, SiteRuleActionType, SiteRuleMatchType } from '../types/SiteRule';
+import { SiteRule, SiteRuleActionType, SiteRuleMatchType, SiteRuleSchedule } from '../types/SiteRule';
+import { isValidTimeZone, parseTimeWindows } from '../utils/scheduleMatcher';
+import { StructuredMatchType, isStructuredMatchType, toStructuredRegex } from '../utils/urlPattern';
+import { siteRulesMatcher } from '../utils/siteRulesMatcher';
+import { getRedirectTargetError } from '../utils/redirectTarget';
+import assertNever from '../utils/assertNever';
+
+/** Patterns shorter than this are considered unspecific */
+const MIN_SPECIFIC_PATTERN_LENGTH = 4;
+
+/** Unrelated, popular URLs used to detect overly broad patterns */
+const BROAD_PATTERN_SAMPLE_URLS = [
+  'https://www.google.com/search?q=weather',
+  'https://en.wikipedia.org/wiki/Main_Page',
+  'https://github.com/explore',
+  'https://mail.google.com/mail/u/0/#inbox',
+  'https://www.amazon.com/gp/cart/view.html',
+  'https://docs.google.com/document/d/1/edit',
+  'https://news.ycombinator.com/news',
+  'https://stackoverflow.com/questions'
+];
+
+/** Match types that apply to every URL except the pattern */
+const NEGATED_MATCH_TYPES = [
+  SiteRuleMatchType.NotEqualTo,
+  SiteRuleMatchType.NotStartsWith,
+  SiteRuleMatchType.NotEndsWith,
+  SiteRuleMatchType.NotContains,
+  SiteRuleMatchType.NotRegex
+];
+
+/** Validation errors of structured patterns, with an example of a valid pattern */
+const STRUCTURED_PATTERN_ERRORS: Record<StructuredMatchType, string> = {
+  [SiteRuleMatchType.Domain]: 'Enter one or more domains separated by commas, e.g. reddit.com, x.com',
+  [SiteRuleMatchType.ExactHost]: 'Enter one or more host names separated by commas, e.g. www.reddit.com',
+  [SiteRuleMatchType.PathPrefix]: 'Enter a domain followed by a path, e.g. youtube.com/shorts',
+  [SiteRuleMatchType.QueryParam]: 'Enter a query parameter, optionally after a domain, e.g. youtube.com?list=WL or list=WL',
+  [SiteRuleMatchType.Wildcard]: 'Enter a wildcard pattern of host names and paths, e.g. *.reddit.com/r/*'
+};
+
+/**
+ * Result of validating a URL pattern.
+ */
+export interface PatternValidation {
+  /** Why the pattern cannot be used (null if it is valid) */
+  error: string | null;
+
+  /** Hints about patterns that are valid but probably unintended */
+  warnings: string[];
+}
 
 /**
  * Form data interface for rule creation/editing
@@ -15,6 +64,7 @@ interface RuleFormData {
   pattern: string;
   matchType: SiteRuleMatchType;
   action: SiteRule['action'];
+  schedule?: SiteRuleSchedule;
 }
 
 /**
@@ -69,6 +119,12 @@ export default class FormService {
       return null;
     }
 
+    const { error: patternError } = this.validatePattern(pattern, matchType);
+    if (patternError) {
+      this.showError(patternError);
+      return null;
+    }
+
     // Build action object based on action type
     let action: SiteRule['action'];
 
@@ -95,23 +151,69 @@ export default class FormService {
         type: SiteRuleActionType.Limit,
         allowedMinutes,
         resetAfterMinutes,
-        delayMinutes,
-        usedMinutes: 0,
-        lastResetAt: Date.now(),
-        lastUsedAt: 0
+        delayMinutes
       };
+    } else if (actionType === SiteRuleActionType.Redirect) {
+      const targetElement = document.getElementById('rule-redirect-target') as HTMLInputElement;
+      const target = targetElement?.value.trim() || '';
+
+      const targetError = getRedirectTargetError(target, matchType, pattern);
+      if (targetError) {
+        this.showError(targetError);
+        return null;
+      }
+
+      action = { type: SiteRuleActionType.Redirect, target };
     } else {
       action = { type: actionType };
     }
 
+    const schedule = this.getScheduleData();
+    if (schedule === null) return null;
+
     return {
       title,
       pattern,
       matchType,
-      action
+      action,
+      schedule
     };
   }
 
+  /**
+   * Extract and validate the schedule section of the rule form.
+   * @returns The schedule, undefined if scheduling is off, or null if validation fails
+   */
+  private getScheduleData(): SiteRuleSchedule | undefined | null {
+    const enabledElement = document.getElementById('rule-schedule-enabled') as HTMLInputElement;
+    if (!enabledElement?.checked) return undefined;
+
+    const windowsElement = document.getElementById('rule-schedule-windows') as HTMLInputElement;
+    const timeZoneElement = document.getElementById('rule-schedule-timezone') as HTMLInputElement;
+
+    const weekdays = Array.from(document.querySelectorAll<HTMLInputElement>('input[name="rule-schedule-weekday"]:checked'))
+      .map(input => parseInt(input.value, 10));
+
+    if (weekdays.length === 0) {
+      this.showError('Select at least one day for the schedule');
+      return null;
+    }
+
+    const windows = parseTimeWindows(windowsElement?.value || '');
+    if (!windows) {
+      this.showError('Time windows must look like 09:00-17:00, 22:00-02:00');
+      return null;
+    }
+
+    const timeZone = timeZoneElement?.value.trim() || undefined;
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      this.showError(`Unknown time zone: ${timeZone}`);
+      return null;
+    }
+
+    return { weekdays, windows, timeZone };
+  }
+
   /**
    * Show a success message to the user.
    * @param message - Success message to display
@@ -167,41 +269,102 @@ export default class FormService {
 
   /**
    * Validate a URL pattern based on match type.
+   * Errors make the rule unusable; warnings point out patterns that are
+   * probably not what the user meant.
    * @param pattern - URL pattern to validate
    * @param matchType - Type of matching to validate against
-   * @returns True if pattern is valid for the match type
+   * @returns The validation error (if any) and warnings
    */
-  public validatePattern(pattern: string, matchType: SiteRuleMatchType): boolean {
-    if (!pattern.trim()) {
-      return false;
+  public validatePattern(pattern: string, matchType: SiteRuleMatchType): PatternValidation {
+    const trimmed = pattern.trim();
+    if (!trimmed) {
+      return { error: 'URL pattern is required', warnings: [] };
     }
 
+    if (isStructuredMatchType(matchType)) {
+      return toStructuredRegex(matchType, trimmed)
+        ? { error: null, warnings: this.getBroadPatternWarnings(trimmed, matchType) }
+        : { error: STRUCTURED_PATTERN_ERRORS[matchType], warnings: [] };
+    }
+
+    const warnings: string[] = [];
+
     switch (matchType) {
-      case 'equalTo':
-        // For exact match, should be a valid URL
+      case SiteRuleMatchType.Regex:
+      case SiteRuleMatchType.NotRegex:
         try {
-          new URL(pattern);
-          return true;
-        } catch {
-          return false;
+          new RegExp(trimmed);
+        } catch (error) {
+          return { error: `Invalid regular expression: ${(error as Error).message}`, warnings: [] };
         }
+        if (/\(\?<?[=!]|\\[1-9]/.test(trimmed)) {
+          warnings.push('Lookarounds and backreferences cannot be enforced at the network level, so pages load briefly before they are blocked');
+        }
+        break;
 
-      case 'contains':
-        // For contains, any non-empty string is valid
-        return pattern.trim().length > 0;
-
-      case 'regex':
-        // For regex, validate that it's a valid regex pattern
+      case SiteRuleMatchType.EqualTo:
+      case SiteRuleMatchType.NotEqualTo:
         try {
-          new RegExp(pattern);
-          return true;
+          const href = new URL(trimmed).href;
+          if (href !== trimmed) {
+            warnings.push(`Browsers write this URL as ${href}, so only that exact text matches`);
+          }
         } catch {
-          return false;
+          warnings.push('Exact matches compare the full URL, including https://');
+        }
+        break;
+
+      case SiteRuleMatchType.StartsWith:
+      case SiteRuleMatchType.NotStartsWith:
+        if (!/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+          warnings.push('URLs start with a scheme such as https://, so this pattern never matches the start of a URL');
+        }
+        break;
+
+      case SiteRuleMatchType.Contains:
+      case SiteRuleMatchType.NotContains:
+        if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(trimmed)) {
+          warnings.push(`"Contains" also matches other sites and searches that include "${trimmed}"; "On Domain" matches only ${trimmed} and its subdomains`);
         }
+        break;
+
+      case SiteRuleMatchType.EndsWith:
+      case SiteRuleMatchType.NotEndsWith:
+        break;
 
       default:
-        return false;
+        return assertNever(matchType);
+    }
+
+    if (trimmed.length < MIN_SPECIFIC_PATTERN_LENGTH && matchType !== SiteRuleMatchType.EqualTo && matchType !== SiteRuleMatchType.NotEqualTo) {
+      warnings.push('Very short patterns match many unrelated URLs');
     }
+
+    return { error: null, warnings: [...warnings, ...this.getBroadPatternWarnings(trimmed, matchType)] };
+  }
+
+  /**
+   * Warn when a pattern matches at least half of a set of unrelated, popular URLs.
+   * @param pattern - A valid URL pattern
+   * @param matchType - Type of matching
+   * @returns A warning, or nothing if the pattern looks specific
+   */
+  private getBroadPatternWarnings(pattern: string, matchType: SiteRuleMatchType): string[] {
+    // Negated patterns are meant to match almost everything
+    if (NEGATED_MATCH_TYPES.includes(matchType)) return [];
+
+    const matched = BROAD_PATTERN_SAMPLE_URLS.filter(url => {
+      try {
+        return siteRulesMatcher[matchType](url, pattern);
+      } catch {
+        return false;
+      }
+    });
+
+    if (matched.length * 2 < BROAD_PATTERN_SAMPLE_URLS.length) return [];
+
+    const examples = matched.slice(0, 3).map(url => new URL(url).hostname).join(', ');
+    return [`This pattern matches ${matched.length} of ${BROAD_PATTERN_SAMPLE_URLS.length} unrelated popular sites (e.g. ${examples}) and is probably too broad`];
   }
 
   /**
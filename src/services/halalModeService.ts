@@ -0,0 +1,332 @@
+/**
+ * Halal Mode Service
+ *
+ * Content filtering of Halal Mode: finds the list entry blocking a page, keeps
+ * the user's list (imported updates, custom and never-blocked domains) and
+ * applies the page-level filters from the content script: safe search for
+ * search-engine pages that changed without a navigation, and blurred images on
+ * pages flagged by the keyword list. Blocking itself is done by the rule
+ * evaluation and the network rules.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { BUNDLED_HALAL_BLOCKLIST, HALAL_CATEGORY_LABELS, SAFE_SEARCH_ENGINES } from '../config/halalBlocklist';
+import { HalalBlocklist, HalalCategory, HalalListState, HalalMatch } from '../types/HalalMode';
+import { PopupSettings } from '../types/Popup';
+import { SettingsService } from './settingsService';
+
+/** ID of the style element blurring images on flagged pages */
+const BLUR_STYLE_ID = 'keepMeFocus-halalBlur';
+
+/** CSS blurring images and videos on flagged pages */
+const BLUR_CSS = 'img, picture, video, canvas, svg image, [style*="background-image"] { filter: blur(24px) !important; }';
+
+/** Largest number of domains in an imported list */
+const MAX_LIST_DOMAINS = 20000;
+
+/** Pattern of a valid list entry: a domain or a top-level domain */
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+/**
+ * Singleton service for Halal Mode content filtering.
+ */
+export class HalalModeService {
+  /** Singleton instance */
+  private static instance: HalalModeService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the Halal Mode service.
+   * @returns The HalalModeService instance
+   */
+  public static getInstance(): HalalModeService {
+    if (!HalalModeService.instance) {
+      HalalModeService.instance = new HalalModeService();
+    }
+    return HalalModeService.instance;
+  }
+
+  /**
+   * Load the user's Halal Mode list state.
+   * @returns Promise that resolves to the state, with empty domain lists by default
+   */
+  public async loadListState(): Promise<HalalListState> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.HALAL_LIST);
+      const state = result[STORAGE_KEYS.HALAL_LIST] as HalalListState | undefined;
+      return { customDomains: [], allowedDomains: [], ...state };
+    } catch (error) {
+      console.error('Error loading Halal Mode list:', error);
+      return { customDomains: [], allowedDomains: [] };
+    }
+  }
+
+  /**
+   * Get the list in use: the imported list, or the bundled one.
+   * @param state - The user's list state
+   * @returns The list
+   */
+  public getList(state: HalalListState): HalalBlocklist {
+    return state.importedList || BUNDLED_HALAL_BLOCKLIST;
+  }
+
+  /**
+   * Get the blocked domains of each enabled category, followed by the custom domains.
+   * @param settings - Settings with the enabled categories
+   * @param state - The user's list state
+   * @returns Groups of blocked domains (category null = custom domains), without empty groups
+   */
+  public getBlockedDomains(settings: PopupSettings, state: HalalListState): { category: HalalCategory | null; domains: string[] }[] {
+    const list = this.getList(state);
+    const groups = [
+      ...settings.halalCategories.map(category => ({ category, domains: list.domains[category] || [] })),
+      { category: null, domains: state.customDomains }
+    ];
+    return groups.filter(group => group.domains.length > 0);
+  }
+
+  /**
+   * Find the list entry blocking a URL. Entries match their domain and every subdomain;
+   * never-blocked domains take precedence.
+   * @param url - The page URL
+   * @param settings - Settings with Halal Mode and the enabled categories
+   * @param state - The user's list state
+   * @returns The matched entry, or null if Halal Mode is off or the URL is not blocked
+   */
+  public findMatch(url: string, settings: PopupSettings, state: HalalListState): HalalMatch | null {
+    if (!settings.halalMode) return null;
+
+    const hostname = this.getHostname(url);
+    if (!hostname) return null;
+
+    const candidates = this.getParentDomains(hostname);
+    if (state.allowedDomains.some(domain => candidates.includes(domain))) return null;
+
+    for (const group of this.getBlockedDomains(settings, state)) {
+      const domain = group.domains.find(entry => candidates.includes(entry));
+      if (domain) return { category: group.category, domain };
+    }
+    return null;
+  }
+
+  /**
+   * Get the safe-search address of a search-engine result page.
+   * @param url - The page URL
+   * @returns The URL with safe search enforced, or null if it needs no change
+   */
+  public getSafeSearchUrl(url: string): string | null {
+    const engine = SAFE_SEARCH_ENGINES.find(candidate => new RegExp(candidate.regexFilter).test(url));
+    if (!engine) return null;
+
+    const safeUrl = new URL(url);
+    if (safeUrl.searchParams.get(engine.param) === engine.value) return null;
+    safeUrl.searchParams.set(engine.param, engine.value);
+    return safeUrl.toString();
+  }
+
+  /**
+   * Check whether a page is flagged by the keyword list, through its address or title.
+   * @param url - The page URL
+   * @param title - The page title
+   * @param list - The list in use
+   * @returns True if a keyword appears as a whole word
+   */
+  public isFlaggedPage(url: string, title: string, list: HalalBlocklist): boolean {
+    if (list.keywords.length === 0) return false;
+
+    let text = `${url} ${title}`;
+    try {
+      text = `${decodeURIComponent(url)} ${title}`;
+    } catch {
+      // Keep the encoded URL
+    }
+
+    const keywords = list.keywords.map(keyword => keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(^|[^a-z0-9])(${keywords.join('|')})($|[^a-z0-9])`, 'i').test(text);
+  }
+
+  /**
+   * Apply the page-level filters to the current page (content script).
+   * Search result pages reached without a navigation are reloaded with safe search,
+   * and images are blurred on flagged pages.
+   * @returns Promise that resolves when the filters are applied
+   */
+  public async applyToPage(): Promise<void> {
+    const settings = await SettingsService.getInstance().loadSettings();
+
+    if (settings.halalMode && settings.halalSafeSearch) {
+      const safeUrl = this.getSafeSearchUrl(window.location.href);
+      if (safeUrl) {
+        window.location.replace(safeUrl);
+        return;
+      }
+    }
+
+    const list = this.getList(await this.loadListState());
+    const blur = settings.halalMode && settings.halalBlurImages
+      && this.isFlaggedPage(window.location.href, document.title, list);
+    this.setImagesBlurred(blur);
+  }
+
+  /**
+   * Replace the list with an updated one from a JSON file.
+   * @param json - Contents of the file, in the shape of the bundled list
+   * @returns Promise that resolves to the imported list
+   * @throws Error if the file is not a valid list
+   */
+  public async importList(json: string): Promise<HalalBlocklist> {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const list = this.validateList(data);
+    const state = await this.loadListState();
+    await this.saveListState({ ...state, importedList: list, importedAt: Date.now() });
+    return list;
+  }
+
+  /**
+   * Go back to the bundled list. Custom and never-blocked domains are kept.
+   * @returns Promise that resolves when the list is reset
+   */
+  public async useBundledList(): Promise<void> {
+    const { customDomains, allowedDomains } = await this.loadListState();
+    await this.saveListState({ customDomains, allowedDomains });
+  }
+
+  /**
+   * Save the user's custom blocked and never-blocked domains.
+   * @param customDomains - Domains blocked in addition to the list
+   * @param allowedDomains - Domains that are never blocked
+   * @returns Promise that resolves to the saved, normalized domains
+   * @throws Error naming the first invalid domain
+   */
+  public async saveDomains(customDomains: string[], allowedDomains: string[]): Promise<Pick<HalalListState, 'customDomains' | 'allowedDomains'>> {
+    const domains = {
+      customDomains: this.normalizeDomains(customDomains),
+      allowedDomains: this.normalizeDomains(allowedDomains)
+    };
+    const state = await this.loadListState();
+    await this.saveListState({ ...state, ...domains });
+    return domains;
+  }
+
+  /**
+   * Save the user's list state.
+   * @param state - The state to save
+   */
+  private async saveListState(state: HalalListState): Promise<void> {
+    await browser.storage.local.set({ [STORAGE_KEYS.HALAL_LIST]: state });
+  }
+
+  /**
+   * Validate an imported list.
+   * @param data - Parsed file contents
+   * @returns The list with normalized domains
+   * @throws Error describing the problem
+   */
+  private validateList(data: unknown): HalalBlocklist {
+    if (typeof data !== 'object' || data === null) {
+      throw new Error('The file does not contain a Halal Mode list');
+    }
+
+    const { version, domains, keywords } = data as Partial<HalalBlocklist>;
+    if (typeof version !== 'string' || !version.trim()) {
+      throw new Error('The list has no version');
+    }
+    if (typeof domains !== 'object' || domains === null) {
+      throw new Error('The list has no domains');
+    }
+    if (keywords !== undefined && (!Array.isArray(keywords) || keywords.some(keyword => typeof keyword !== 'string'))) {
+      throw new Error('The keywords must be a list of words');
+    }
+
+    const list: HalalBlocklist = {
+      version: version.trim(),
+      domains: { [HalalCategory.Gambling]: [], [HalalCategory.Adult]: [], [HalalCategory.Alcohol]: [] },
+      keywords: (keywords || []).map(keyword => keyword.trim().toLowerCase()).filter(Boolean)
+    };
+
+    let total = 0;
+    for (const category of Object.values(HalalCategory)) {
+      const entries = domains[category] ?? [];
+      if (!Array.isArray(entries) || entries.some(entry => typeof entry !== 'string')) {
+        throw new Error(`The ${HALAL_CATEGORY_LABELS[category]} domains must be a list of domains`);
+      }
+      list.domains[category] = this.normalizeDomains(entries);
+      total += list.domains[category].length;
+    }
+
+    if (total === 0) throw new Error('The list contains no domains');
+    if (total > MAX_LIST_DOMAINS) throw new Error(`The list can contain at most ${MAX_LIST_DOMAINS} domains`);
+    return list;
+  }
+
+  /**
+   * Normalize domains: lower case, without scheme, path or leading "www.", without duplicates.
+   * @param domains - Domains as entered
+   * @returns The normalized domains
+   * @throws Error naming the first invalid domain
+   */
+  private normalizeDomains(domains: string[]): string[] {
+    const normalized = domains
+      .map(domain => domain.trim().toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/[/?#].*$/, '')
+        .replace(/^www\./, '')
+        .replace(/\.$/, ''))
+      .filter(Boolean);
+
+    const invalid = normalized.find(domain => !DOMAIN_PATTERN.test(domain));
+    if (invalid) throw new Error(`"${invalid}" is not a valid domain`);
+    return [...new Set(normalized)];
+  }
+
+  /**
+   * Get the host name of a web page URL.
+   * @param url - The page URL
+   * @returns The lower-case host name without a trailing dot, or null for other URLs
+   */
+  private getHostname(url: string): string | null {
+    try {
+      const { protocol, hostname } = new URL(url);
+      if (protocol !== 'http:' && protocol !== 'https:' || !hostname) return null;
+      return hostname.toLowerCase().replace(/\.$/, '');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get a host name and all of its parent domains, down to the top-level domain.
+   * @param hostname - The host name
+   * @returns Domains such as ["a.example.com", "example.com", "com"]
+   */
+  private getParentDomains(hostname: string): string[] {
+    const labels = hostname.split('.');
+    return labels.map((_label, index) => labels.slice(index).join('.'));
+  }
+
+  /**
+   * Blur or unblur the images of the current page.
+   * @param blurred - Whether images are blurred
+   */
+  private setImagesBlurred(blurred: boolean): void {
+    const existing = document.getElementById(BLUR_STYLE_ID);
+    if (!blurred) {
+      existing?.remove();
+      return;
+    }
+    if (existing) return;
+
+    const style = document.createElement('style');
+    style.id = BLUR_STYLE_ID;
+    style.textContent = BLUR_CSS;
+    (document.head || document.documentElement).appendChild(style);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Hiding Rules Service
+ *
+ * Manages the element hiding selectors added by the user and works out which
+ * entries, from the built-in packs and the user's selectors, apply to a site.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { ELEMENT_HIDING_PACKS } from '../config/elementHidingPacks';
+import { CustomHidingRule, ElementHidingEntry, ElementHidingPack } from '../types/ElementHiding';
+import { PopupSettings } from '../types/Popup';
+
+/** Largest number of selectors the user can add, so that typical entries fit in one sync storage item */
+export const MAX_CUSTOM_HIDING_RULES = 40;
+
+/** Largest size of a single sync storage item, including its key, in bytes */
+const SYNC_QUOTA_BYTES_PER_ITEM = 8192;
+
+/** Message shown when the selectors no longer fit in sync storage */
+const QUOTA_ERROR_MESSAGE = 'There is no room left to sync more selectors. Shorten the descriptions or delete selectors you no longer need';
+
+/**
+ * Singleton service for the user's element hiding selectors.
+ */
+export class HidingRulesService {
+  /** Singleton instance */
+  private static instance: HidingRulesService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the hiding rules service.
+   * @returns The HidingRulesService instance
+   */
+  public static getInstance(): HidingRulesService {
+    if (!HidingRulesService.instance) {
+      HidingRulesService.instance = new HidingRulesService();
+    }
+    return HidingRulesService.instance;
+  }
+
+  /**
+   * Load the selectors added by the user.
+   * @returns Promise that resolves to the custom rules
+   */
+  public async loadCustomRules(): Promise<CustomHidingRule[]> {
+    try {
+      const result = await browser.storage.sync.get(STORAGE_KEYS.HIDING_RULES);
+      return (result[STORAGE_KEYS.HIDING_RULES] as CustomHidingRule[] | undefined) || [];
+    } catch (error) {
+      console.error('Error loading hiding rules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a selector.
+   * @param rule - Site, selector and description of the new rule
+   * @returns Promise that resolves to the added rule
+   * @throws Error if the site or selector is invalid, too many selectors were added or they no longer fit in sync storage
+   */
+  public async addCustomRule(rule: Omit<CustomHidingRule, 'id' | 'containers'>): Promise<CustomHidingRule> {
+    const host = rule.host.trim().toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/[/?#:].*$/, '')
+      .replace(/^www\./, '');
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)) {
+      throw new Error('Enter a site such as example.com');
+    }
+
+    const selector = rule.selector.trim();
+    if (!this.isValidSelector(selector)) {
+      throw new Error('Enter a valid CSS selector');
+    }
+
+    const rules = await this.loadCustomRules();
+    if (rules.length >= MAX_CUSTOM_HIDING_RULES) {
+      throw new Error(`You can add at most ${MAX_CUSTOM_HIDING_RULES} selectors`);
+    }
+
+    const newRule: CustomHidingRule = {
+      id: `hide_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      host,
+      selector,
+      description: rule.description.trim() || selector
+    };
+    await this.saveCustomRules([...rules, newRule]);
+    return newRule;
+  }
+
+  /**
+   * Delete a selector.
+   * @param ruleId - ID of the rule to delete
+   * @returns Promise that resolves when the rule is deleted
+   */
+  public async deleteCustomRule(ruleId: string): Promise<void> {
+    const rules = await this.loadCustomRules();
+    await this.saveCustomRules(rules.filter(rule => rule.id !== ruleId));
+  }
+
+  /**
+   * Get the built-in packs listed on the options page, i.e. those without a popup toggle.
+   * @returns The packs
+   */
+  public getOptionalPacks(): ElementHidingPack[] {
+    return ELEMENT_HIDING_PACKS.filter(pack => !pack.setting);
+  }
+
+  /**
+   * Get the entries that apply to a site: those of the packs that are turned on,
+   * followed by the user's selectors.
+   * @param hostname - Host name of the page
+   * @param settings - Settings turning packs on
+   * @param customRules - Selectors added by the user
+   * @returns The entries to hide
+   */
+  public getActiveEntries(hostname: string, settings: PopupSettings, customRules: CustomHidingRule[]): ElementHidingEntry[] {
+    const packEntries = ELEMENT_HIDING_PACKS
+      .filter(pack => pack.setting ? settings[pack.setting] : settings.elementHidingPacks.includes(pack.id))
+      .filter(pack => pack.hosts.some(host => this.isOnHost(hostname, host)))
+      .flatMap(pack => pack.entries);
+    const customEntries = customRules.filter(rule => this.isOnHost(hostname, rule.host));
+
+    return [...packEntries, ...customEntries];
+  }
+
+  /**
+   * Save the selectors added by the user.
+   * @param rules - The custom rules
+   * @throws Error with a readable message if the selectors exceed the sync storage quota
+   */
+  private async saveCustomRules(rules: CustomHidingRule[]): Promise<void> {
+    // Sync storage measures an item as its key plus the JSON of its value
+    const size = new TextEncoder().encode(STORAGE_KEYS.HIDING_RULES + JSON.stringify(rules)).length;
+    if (size > SYNC_QUOTA_BYTES_PER_ITEM) {
+      throw new Error(QUOTA_ERROR_MESSAGE);
+    }
+
+    try {
+      await browser.storage.sync.set({ [STORAGE_KEYS.HIDING_RULES]: rules });
+    } catch (error) {
+      if (error instanceof Error && /quota/i.test(error.message)) {
+        throw new Error(QUOTA_ERROR_MESSAGE);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a host name is a site or one of its subdomains.
+   * @param hostname - Host name of the page
+   * @param host - The site
+   * @returns True if the page belongs to the site
+   */
+  private isOnHost(hostname: string, host: string): boolean {
+    return hostname === host || hostname.endsWith(`.${host}`);
+  }
+
+  /**
+   * Check whether the browser accepts a CSS selector that is safe to use in a stylesheet.
+   * @param selector - The selector
+   * @returns True if the selector can be used
+   */
+  private isValidSelector(selector: string): boolean {
+    // Selectors end up in a stylesheet, where a comment opener would swallow the rules after it
+    if (!selector || selector.includes('/*')) return false;
+    try {
+      document.createDocumentFragment().querySelector(selector);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Usage History Service
+ *
+ * Records browsing time per domain and per rule, and how often rules fire,
+ * into daily buckets in local storage. Old buckets are pruned automatically.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { DailyUsage, UsageHistory } from '../types/UsageHistory';
+
+/** Number of days of history to keep */
+const HISTORY_RETENTION_DAYS = 90;
+
+/**
+ * Singleton service for recording and reading the usage history.
+ */
+export class HistoryService {
+  /** Singleton instance */
+  private static instance: HistoryService;
+
+  /** Promise of the write currently in progress, used to serialize updates */
+  private writeInProgress: Promise<void> = Promise.resolve();
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the usage history service.
+   * @returns The HistoryService instance
+   */
+  public static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  /**
+   * Get the bucket key for a date.
+   * @param date - The date (defaults to now)
+   * @returns Local date in YYYY-MM-DD format
+   */
+  public static toDateKey(date: Date = new Date()): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Load the complete usage history.
+   * @returns Promise that resolves to the history keyed by date
+   */
+  public async loadHistory(): Promise<UsageHistory> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.USAGE_HISTORY);
+      return (result[STORAGE_KEYS.USAGE_HISTORY] as UsageHistory) || {};
+    } catch (error) {
+      console.error('Error loading usage history:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Record time spent on a domain.
+   * @param domain - Domain of the page
+   * @param ruleId - ID of the rule matching the page (if any)
+   * @param seconds - Time spent, in seconds
+   * @returns Promise that resolves when the time is recorded
+   */
+  public recordTime(domain: string, ruleId: string | undefined, seconds: number): Promise<void> {
+    return this.updateToday(day => {
+      day.domains[domain] = (day.domains[domain] || 0) + seconds;
+      if (ruleId) {
+        day.rules[ruleId] = (day.rules[ruleId] || 0) + seconds;
+      }
+    });
+  }
+
+  /**
+   * Record that a Block or Limit rule fired.
+   * @param ruleId - ID of the rule
+   * @returns Promise that resolves when the hit is recorded
+   */
+  public recordRuleHit(ruleId: string): Promise<void> {
+    return this.updateToday(day => {
+      day.ruleHits[ruleId] = (day.ruleHits[ruleId] || 0) + 1;
+    });
+  }
+
+  /**
+   * Apply a change to today's bucket and prune expired buckets.
+   * Writes are serialized so that concurrent updates are not lost.
+   * @param update - Callback mutating today's bucket
+   * @returns Promise that resolves when the history is saved
+   */
+  private updateToday(update: (day: DailyUsage) => void): Promise<void> {
+    this.writeInProgress = this.writeInProgress
+      .then(async () => {
+        const history = await this.loadHistory();
+        const todayKey = HistoryService.toDateKey();
+        const day = history[todayKey] || { domains: {}, rules: {}, ruleHits: {} };
+
+        update(day);
+        history[todayKey] = day;
+
+        const oldestKey = HistoryService.toDateKey(new Date(Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+        Object.keys(history)
+          .filter(dateKey => dateKey < oldestKey)
+          .forEach(dateKey => delete history[dateKey]);
+
+        await browser.storage.local.set({ [STORAGE_KEYS.USAGE_HISTORY]: history });
+      })
+      .catch(error => console.error('Error saving usage history:', error));
+    return this.writeInProgress;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Limit Warning Service
+ *
+ * Warns before the time budget of a Limit rule runs out, run by the background
+ * script as usage is credited. Warnings are shown as a toast on the page and/or
+ * as a browser notification, and also announce the grace period, if one is set.
+ */
+
+import browser from 'webextension-polyfill';
+import { SiteRule, SiteRuleActionType, SiteRuleLimitAction } from '../types/SiteRule';
+import { RuleUsage } from '../types/RuleUsage';
+import { PopupSettings } from '../types/Popup';
+import { SettingsService } from './settingsService';
+import { getLimitStatus } from '../utils/limitStatus';
+
+/**
+ * Singleton service for limit warnings and the grace period.
+ */
+export class LimitWarningService {
+  /** Singleton instance */
+  private static instance: LimitWarningService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the limit warning service.
+   * @returns The LimitWarningService instance
+   */
+  public static getInstance(): LimitWarningService {
+    if (!LimitWarningService.instance) {
+      LimitWarningService.instance = new LimitWarningService();
+    }
+    return LimitWarningService.instance;
+  }
+
+  /**
+   * Warn if crediting usage crossed a warning threshold or used up the budget.
+   * Each threshold is crossed once per period, so warnings are never repeated.
+   * @param tabId - ID of the tab the time was credited to
+   * @param rule - The Limit rule
+   * @param usedBefore - Minutes used in the current period before the credit
+   * @param usedAfter - Minutes used in the current period after the credit
+   * @returns Promise that resolves when the warning is shown
+   */
+  public async checkWarnings(tabId: number, rule: SiteRule, usedBefore: number, usedAfter: number): Promise<void> {
+    if (rule.action.type !== SiteRuleActionType.Limit || rule.action.allowedMinutes <= 0) return;
+
+    const settings = await SettingsService.getInstance().loadSettings();
+    const remainingBefore = rule.action.allowedMinutes - usedBefore;
+    const remainingAfter = rule.action.allowedMinutes - usedAfter;
+
+    if (remainingBefore > 0 && remainingAfter <= 0) {
+      if (settings.limitGraceMinutes > 0) {
+        const minutes = settings.limitGraceMinutes;
+        await this.warn(tabId, `Time is up: ${rule.title}`, `You have ${minutes} more minute${minutes !== 1 ? 's' : ''} to finish what you are doing on this page.`, settings);
+      }
+      return;
+    }
+
+    const crossed = settings.limitWarningMinutes.filter(minutes => remainingBefore > minutes && remainingAfter <= minutes);
+    if (crossed.length === 0) return;
+
+    const minutes = Math.min(...crossed);
+    await this.warn(tabId, `${minutes} minute${minutes !== 1 ? 's' : ''} left`, `Your time on "${rule.title}" is almost up.`, settings);
+  }
+
+  /**
+   * Check whether an open page may still be used although its Limit rule's budget ran out.
+   * The grace period only extends the budget; startup delays are not affected.
+   * @param action - The Limit action
+   * @param usage - The rule's usage counters
+   * @param now - Current timestamp
+   * @param uptimeSec - Seconds since the browser started
+   * @returns Promise that resolves to true while the grace period lasts
+   */
+  public async isInGracePeriod(action: SiteRuleLimitAction, usage: RuleUsage, now: number, uptimeSec: number): Promise<boolean> {
+    const { limitGraceMinutes } = await SettingsService.getInstance().loadSettings();
+    if (limitGraceMinutes <= 0 || action.allowedMinutes <= 0) return false;
+
+    const extendedAction = { ...action, allowedMinutes: action.allowedMinutes + limitGraceMinutes };
+    return getLimitStatus(extendedAction, usage, now, uptimeSec).allowed;
+  }
+
+  /**
+   * Show a warning in the ways chosen in the settings.
+   * @param tabId - ID of the tab to show the toast in
+   * @param title - Warning title
+   * @param message - Warning text
+   * @param settings - The current settings
+   */
+  private async warn(tabId: number, title: string, message: string, settings: PopupSettings): Promise<void> {
+    if (settings.limitWarningToast) {
+      browser.tabs.sendMessage(tabId, { action: 'showLimitWarning', title, message }).catch(() => {
+        // The content script is not injected in this tab
+      });
+    }
+
+    if (settings.limitWarningNotification) {
+      browser.notifications.create({
+        type: 'basic',
+        iconUrl: browser.runtime.getURL('icons/icon128.png'),
+        title,
+        message
+      }).catch(error => console.error('Error showing limit warning:', error));
+    }
+  }
+}
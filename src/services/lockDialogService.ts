@@ -0,0 +1,279 @@
+/**
+ * Lock Dialog Service
+ *
+ * Shows the dialogs of the PIN lock on extension pages: entering the PIN (or the
+ * recovery code) before a protected change, choosing a new PIN and showing the
+ * recovery code once.
+ */
+
+import { LockService, MIN_PIN_LENGTH } from './lockService';
+
+/** Classes of the dialog buttons */
+const BUTTON_CLASSES = {
+  primary: 'px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-md hover:bg-blue-700 disabled:opacity-50',
+  secondary: 'px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-200',
+  link: 'text-xs text-blue-600 hover:underline'
+};
+
+/** Classes of the dialog text inputs */
+const INPUT_CLASSES = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Elements of an open dialog.
+ */
+interface Dialog {
+  /** Area for the dialog's content */
+  body: HTMLElement;
+
+  /** Line showing validation errors */
+  errorLine: HTMLElement;
+
+  /** Row holding the dialog's buttons */
+  buttons: HTMLElement;
+
+  /** Remove the dialog */
+  close: () => void;
+}
+
+/**
+ * Singleton service for the PIN lock dialogs.
+ */
+export class LockDialogService {
+  /** Singleton instance */
+  private static instance: LockDialogService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the lock dialog service.
+   * @returns The LockDialogService instance
+   */
+  public static getInstance(): LockDialogService {
+    if (!LockDialogService.instance) {
+      LockDialogService.instance = new LockDialogService();
+    }
+    return LockDialogService.instance;
+  }
+
+  /**
+   * Ask for the PIN before a protected change, unless no PIN is set or the page is unlocked.
+   * A correct recovery code removes the PIN and allows the change as well.
+   * @param reason - What the PIN is needed for, completing "Enter your PIN to ..."
+   * @returns Promise that resolves to true if the change may be made
+   */
+  public async requireUnlock(reason: string): Promise<boolean> {
+    const lockService = LockService.getInstance();
+    if (await lockService.isUnlocked()) return true;
+
+    return new Promise<boolean>(resolve => {
+      const dialog = this.openDialog('PIN required');
+      let recoveryMode = false;
+
+      const message = this.createText(`Enter your PIN to ${reason}.`);
+      const input = this.createInput('password', 'PIN or password');
+      const switchLink = this.createButton('Forgot your PIN?', BUTTON_CLASSES.link);
+      dialog.body.append(message, input, switchLink);
+
+      const cancelButton = this.createButton('Cancel', BUTTON_CLASSES.secondary);
+      const confirmButton = this.createButton('Unlock', BUTTON_CLASSES.primary);
+      dialog.buttons.append(cancelButton, confirmButton);
+
+      const finish = (allowed: boolean) => {
+        dialog.close();
+        resolve(allowed);
+      };
+
+      switchLink.addEventListener('click', () => {
+        recoveryMode = !recoveryMode;
+        message.textContent = recoveryMode
+          ? 'Enter the recovery code shown when the PIN was set. It removes the PIN; you can set a new one in the options.'
+          : `Enter your PIN to ${reason}.`;
+        input.type = recoveryMode ? 'text' : 'password';
+        input.placeholder = recoveryMode ? 'XXXX-XXXX-XXXX-XXXX' : 'PIN or password';
+        input.value = '';
+        switchLink.textContent = recoveryMode ? 'Enter the PIN instead' : 'Forgot your PIN?';
+        confirmButton.textContent = recoveryMode ? 'Remove PIN' : 'Unlock';
+        dialog.errorLine.textContent = '';
+        input.focus();
+      });
+
+      const submit = async () => {
+        if (!input.value) return;
+        confirmButton.disabled = true;
+        try {
+          const correct = recoveryMode
+            ? await lockService.useRecoveryCode(input.value)
+            : await lockService.verifyPin(input.value);
+          if (correct) {
+            finish(true);
+            return;
+          }
+          dialog.errorLine.textContent = recoveryMode ? 'Wrong recovery code' : 'Wrong PIN';
+          input.select();
+        } catch (error) {
+          console.error('Error checking PIN:', error);
+          dialog.errorLine.textContent = 'Error checking the PIN. Please try again.';
+        } finally {
+          confirmButton.disabled = false;
+        }
+      };
+
+      cancelButton.addEventListener('click', () => finish(false));
+      confirmButton.addEventListener('click', submit);
+      input.addEventListener('keydown', (event) => {
+        if (event.key === 'Enter') submit();
+        if (event.key === 'Escape') finish(false);
+      });
+      input.focus();
+    });
+  }
+
+  /**
+   * Ask for a new PIN, entered twice.
+   * @returns Promise that resolves to the new PIN, or null if cancelled
+   */
+  public promptNewPin(): Promise<string | null> {
+    return new Promise<string | null>(resolve => {
+      const dialog = this.openDialog('Set a PIN');
+
+      const message = this.createText(`Choose a PIN or password of at least ${MIN_PIN_LENGTH} characters. Pick one you will not type on impulse.`);
+      const input = this.createInput('password', 'New PIN or password');
+      const repeatInput = this.createInput('password', 'Repeat the PIN');
+      dialog.body.append(message, input, repeatInput);
+
+      const cancelButton = this.createButton('Cancel', BUTTON_CLASSES.secondary);
+      const confirmButton = this.createButton('Set PIN', BUTTON_CLASSES.primary);
+      dialog.buttons.append(cancelButton, confirmButton);
+
+      const finish = (pin: string | null) => {
+        dialog.close();
+        resolve(pin);
+      };
+
+      const submit = () => {
+        if (input.value.length < MIN_PIN_LENGTH) {
+          dialog.errorLine.textContent = `The PIN must have at least ${MIN_PIN_LENGTH} characters`;
+          input.focus();
+          return;
+        }
+        if (input.value !== repeatInput.value) {
+          dialog.errorLine.textContent = 'The PINs do not match';
+          repeatInput.select();
+          return;
+        }
+        finish(input.value);
+      };
+
+      cancelButton.addEventListener('click', () => finish(null));
+      confirmButton.addEventListener('click', submit);
+      [input, repeatInput].forEach(element => {
+        element.addEventListener('keydown', (event) => {
+          if (event.key === 'Enter') submit();
+          if (event.key === 'Escape') finish(null);
+        });
+      });
+      input.focus();
+    });
+  }
+
+  /**
+   * Show the recovery code of a new PIN. It is not stored in readable form and cannot be shown again.
+   * @param code - The recovery code
+   * @returns Promise that resolves when the dialog is closed
+   */
+  public showRecoveryCode(code: string): Promise<void> {
+    return new Promise<void>(resolve => {
+      const dialog = this.openDialog('Save your recovery code');
+
+      const message = this.createText('If you forget your PIN, this code removes it. Write it down somewhere you cannot reach on impulse; it will not be shown again.');
+      const codeElement = document.createElement('div');
+      codeElement.className = 'px-3 py-2 bg-gray-100 rounded-md font-mono text-lg text-center tracking-wider select-all';
+      codeElement.textContent = code;
+      dialog.body.append(message, codeElement);
+
+      const doneButton = this.createButton('I saved it', BUTTON_CLASSES.primary);
+      dialog.buttons.append(doneButton);
+      doneButton.addEventListener('click', () => {
+        dialog.close();
+        resolve();
+      });
+      doneButton.focus();
+    });
+  }
+
+  /**
+   * Open an empty modal dialog.
+   * @param title - Dialog title
+   * @returns The dialog's elements
+   */
+  private openDialog(title: string): Dialog {
+    const overlay = document.createElement('div');
+    overlay.className = 'fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4';
+
+    const card = document.createElement('div');
+    card.className = 'w-full max-w-sm bg-white rounded-lg shadow-xl p-5 space-y-3';
+    card.setAttribute('role', 'dialog');
+    card.setAttribute('aria-modal', 'true');
+
+    const heading = document.createElement('h2');
+    heading.className = 'text-lg font-semibold text-gray-900';
+    heading.textContent = title;
+
+    const body = document.createElement('div');
+    body.className = 'space-y-3';
+
+    const errorLine = document.createElement('p');
+    errorLine.className = 'text-sm text-red-600 min-h-5';
+    errorLine.setAttribute('role', 'alert');
+
+    const buttons = document.createElement('div');
+    buttons.className = 'flex justify-end gap-2';
+
+    card.append(heading, body, errorLine, buttons);
+    overlay.appendChild(card);
+    document.body.appendChild(overlay);
+
+    return { body, errorLine, buttons, close: () => overlay.remove() };
+  }
+
+  /**
+   * Create a paragraph of dialog text.
+   * @param text - The text
+   * @returns The paragraph
+   */
+  private createText(text: string): HTMLElement {
+    const paragraph = document.createElement('p');
+    paragraph.className = 'text-sm text-gray-600';
+    paragraph.textContent = text;
+    return paragraph;
+  }
+
+  /**
+   * Create a dialog input.
+   * @param type - Input type
+   * @param placeholder - Placeholder text
+   * @returns The input
+   */
+  private createInput(type: 'password' | 'text', placeholder: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = type;
+    input.placeholder = placeholder;
+    input.autocomplete = 'off';
+    input.className = INPUT_CLASSES;
+    return input;
+  }
+
+  /**
+   * Create a dialog button.
+   * @param label - Button text
+   * @param className - Button classes
+   * @returns The button
+   */
+  private createButton(label: string, className: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = className;
+    button.textContent = label;
+    return button;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Lock Service
+ *
+ * Manages the optional PIN or password that must be entered before rules are
+ * disabled, deleted or loosened and before settings are changed. Secrets are
+ * stored only as salted PBKDF2 hashes. A recovery code, shown once when the PIN
+ * is set, removes the lock when the PIN is forgotten.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { LockConfig, LockSecretHash } from '../types/Lock';
+
+/** Shortest PIN or password that can be set */
+export const MIN_PIN_LENGTH = 4;
+
+/** PBKDF2 iterations used for new hashes */
+const PBKDF2_ITERATIONS = 200000;
+
+/** Length of the random salt, in bytes */
+const SALT_BYTES = 16;
+
+/** How long an unlock lasts, in milliseconds */
+const UNLOCK_DURATION_MS = 5 * 60 * 1000;
+
+/** Characters of recovery codes, without look-alikes such as 0/O and 1/I */
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** Number of groups in a recovery code, and characters per group */
+const RECOVERY_CODE_GROUPS = 4;
+const RECOVERY_CODE_GROUP_LENGTH = 4;
+
+/**
+ * Singleton service for the PIN lock.
+ */
+export class LockService {
+  /** Singleton instance */
+  private static instance: LockService;
+
+  /** Timestamp until which this page stays unlocked (0 = locked) */
+  private unlockedUntil = 0;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the lock service.
+   * @returns The LockService instance
+   */
+  public static getInstance(): LockService {
+    if (!LockService.instance) {
+      LockService.instance = new LockService();
+    }
+    return LockService.instance;
+  }
+
+  /**
+   * Check whether a PIN is set.
+   * @returns Promise that resolves to true if changes require the PIN
+   */
+  public async isLockEnabled(): Promise<boolean> {
+    return (await this.loadConfig()) !== null;
+  }
+
+  /**
+   * Check whether changes can be made without entering the PIN, either because
+   * no PIN is set or because it was entered recently on this page.
+   * @returns Promise that resolves to true if changes are allowed
+   */
+  public async isUnlocked(): Promise<boolean> {
+    return Date.now() < this.unlockedUntil || !(await this.isLockEnabled());
+  }
+
+  /**
+   * Set or replace the PIN. A new recovery code is created as well.
+   * @param pin - The new PIN or password
+   * @returns Promise that resolves to the recovery code, to be shown to the user once
+   * @throws Error if the PIN is too short
+   */
+  public async setPin(pin: string): Promise<string> {
+    if (pin.length < MIN_PIN_LENGTH) {
+      throw new Error(`The PIN must have at least ${MIN_PIN_LENGTH} characters`);
+    }
+
+    const recoveryCode = this.createRecoveryCode();
+    const config: LockConfig = {
+      pin: await this.hashSecret(pin),
+      recovery: await this.hashSecret(this.normalizeRecoveryCode(recoveryCode))
+    };
+
+    await browser.storage.sync.set({ [STORAGE_KEYS.LOCK]: config });
+    this.unlock();
+    return recoveryCode;
+  }
+
+  /**
+   * Check a PIN and unlock this page if it is correct.
+   * @param pin - The entered PIN or password
+   * @returns Promise that resolves to true if the PIN is correct or no PIN is set
+   */
+  public async verifyPin(pin: string): Promise<boolean> {
+    const config = await this.loadConfig();
+    if (!config) return true;
+
+    const correct = await this.verifySecret(pin, config.pin);
+    if (correct) this.unlock();
+    return correct;
+  }
+
+  /**
+   * Check a recovery code and remove the lock if it is correct.
+   * @param code - The entered recovery code, in any case and with or without dashes
+   * @returns Promise that resolves to true if the lock was removed
+   */
+  public async useRecoveryCode(code: string): Promise<boolean> {
+    const config = await this.loadConfig();
+    if (!config) return true;
+
+    const correct = await this.verifySecret(this.normalizeRecoveryCode(code), config.recovery);
+    if (correct) await this.removeLock();
+    return correct;
+  }
+
+  /**
+   * Remove the PIN. Callers must check the PIN or recovery code first.
+   * @returns Promise that resolves when the lock is removed
+   */
+  public async removeLock(): Promise<void> {
+    await browser.storage.sync.remove(STORAGE_KEYS.LOCK);
+    this.unlockedUntil = 0;
+  }
+
+  /**
+   * Lock this page again before the unlock expires.
+   */
+  public relock(): void {
+    this.unlockedUntil = 0;
+  }
+
+  /**
+   * Load the lock configuration.
+   * @returns Promise that resolves to the configuration, or null if no PIN is set
+   */
+  private async loadConfig(): Promise<LockConfig | null> {
+    try {
+      const result = await browser.storage.sync.get(STORAGE_KEYS.LOCK);
+      const config = result[STORAGE_KEYS.LOCK] as LockConfig | undefined;
+      return config?.pin && config.recovery ? config : null;
+    } catch (error) {
+      console.error('Error loading lock:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Keep this page unlocked for a while.
+   */
+  private unlock(): void {
+    this.unlockedUntil = Date.now() + UNLOCK_DURATION_MS;
+  }
+
+  /**
+   * Hash a secret with a new random salt.
+   * @param secret - The secret
+   * @returns Promise that resolves to the salted hash
+   */
+  private async hashSecret(secret: string): Promise<LockSecretHash> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await this.deriveHash(secret, salt, PBKDF2_ITERATIONS);
+    return { salt: this.toBase64(salt), hash: this.toBase64(hash), iterations: PBKDF2_ITERATIONS };
+  }
+
+  /**
+   * Check a secret against a stored hash.
+   * @param secret - The entered secret
+   * @param stored - The stored hash
+   * @returns Promise that resolves to true if the secret matches
+   */
+  private async verifySecret(secret: string, stored: LockSecretHash): Promise<boolean> {
+    const hash = await this.deriveHash(secret, this.fromBase64(stored.salt), stored.iterations);
+    const expected = this.fromBase64(stored.hash);
+    if (hash.length !== expected.length) return false;
+
+    // Compare every byte so that the time taken does not reveal where they differ
+    let difference = 0;
+    hash.forEach((byte, index) => {
+      difference |= byte ^ expected[index];
+    });
+    return difference === 0;
+  }
+
+  /**
+   * Derive a PBKDF2-SHA-256 hash.
+   * @param secret - The secret
+   * @param salt - The salt
+   * @param iterations - Number of iterations
+   * @returns Promise that resolves to the 256-bit hash
+   */
+  private async deriveHash(secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+    return new Uint8Array(bits);
+  }
+
+  /**
+   * Create a random recovery code such as "ABCD-EFGH-JKLM-NPQR".
+   * @returns The recovery code
+   */
+  private createRecoveryCode(): string {
+    const length = RECOVERY_CODE_GROUPS * RECOVERY_CODE_GROUP_LENGTH;
+    const characters = Array.from(crypto.getRandomValues(new Uint8Array(length)),
+      byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+
+    const groups: string[] = [];
+    for (let start = 0; start < length; start += RECOVERY_CODE_GROUP_LENGTH) {
+      groups.push(characters.slice(start, start + RECOVERY_CODE_GROUP_LENGTH).join(''));
+    }
+    return groups.join('-');
+  }
+
+  /**
+   * Normalize a recovery code so that case, spaces and dashes do not matter.
+   * @param code - The recovery code
+   * @returns The code's characters in upper case
+   */
+  private normalizeRecoveryCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  /**
+   * Encode bytes as base64.
+   * @param bytes - The bytes
+   * @returns The base64 text
+   */
+  private toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+  }
+
+  /**
+   * Decode base64 text.
+   * @param text - The base64 text
+   * @returns The bytes
+   */
+  private fromBase64(text: string): Uint8Array {
+    return Uint8Array.from(atob(text), character => character.charCodeAt(0));
+  }
+}
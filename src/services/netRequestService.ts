@@ -0,0 +1,446 @@
+/**
+ * Network Request Rules Service
+ *
+ * Compiles site rules and Halal Mode into dynamic declarativeNetRequest rules so
+ * that blocked pages are redirected to the alert page before they start loading,
+ * including pages where content scripts cannot run. Rules that cannot be expressed as
+ * network conditions are left to the content script, which remains the
+ * fallback enforcement path for every rule.
+ */
+
+import browser, { DeclarativeNetRequest } from 'webextension-polyfill';
+import { SiteRule, SiteRuleActionType, SiteRuleMatchType } from '../types/SiteRule';
+import { RulesService } from './rulesService';
+import { SettingsService } from './settingsService';
+import { OverrideService } from './overrideService';
+import { UsageService } from './usageService';
+import { FocusSessionService, FOCUS_ALLOWLIST_TITLE } from './focusSessionService';
+import { FocusSession, FocusSessionMode } from '../types/FocusSession';
+import { RuleUsageRecord } from '../types/RuleUsage';
+import { RuleExemptionRecord } from '../types/RuleOverride';
+import { buildAlertPath } from '../utils/alertUrl';
+import assertNever from '../utils/assertNever';
+import { getLimitStatus } from '../utils/limitStatus';
+import { getUptimeSeconds } from '../utils/uptime';
+import { toStructuredRegex } from '../utils/urlPattern';
+import { hasCaptureGroups, toRegexSubstitution } from '../utils/redirectTarget';
+import { matchRule } from '../utils/ruleMatcher';
+import { ALLOWLIST_MODE_TITLE, getHalalModeTitle } from '../utils/ruleEvaluator';
+import { HalalModeService } from './halalModeService';
+import { HalalListState } from '../types/HalalMode';
+import { PopupSettings } from '../types/Popup';
+import { SAFE_SEARCH_ENGINES, YOUTUBE_RESTRICTED_HOSTS, YOUTUBE_RESTRICT_HEADER } from '../config/halalBlocklist';
+
+/** Resource types intercepted by compiled rules (top-level navigations only) */
+const RESOURCE_TYPES: DeclarativeNetRequest.ResourceType[] = ['main_frame'];
+
+/** Regex matching every web page, used by the allowlist mode and focus session allowlists */
+const ALL_WEB_PAGES_REGEX = '^https?://.*$';
+
+/**
+ * Compiled rule before its ID and priority are assigned.
+ */
+type UnorderedRule = Omit<DeclarativeNetRequest.Rule, 'id' | 'priority'>;
+
+/**
+ * Singleton service that keeps the dynamic declarativeNetRequest rules
+ * in sync with the stored site rules.
+ */
+export class NetRequestService {
+  /** Singleton instance */
+  private static instance: NetRequestService;
+
+  /** Promise of the sync currently in progress, used to serialize updates */
+  private syncInProgress: Promise<void> = Promise.resolve();
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the network request rules service.
+   * @returns The NetRequestService instance
+   */
+  public static getInstance(): NetRequestService {
+    if (!NetRequestService.instance) {
+      NetRequestService.instance = new NetRequestService();
+    }
+    return NetRequestService.instance;
+  }
+
+  /**
+   * Recompile the stored site rules and replace the dynamic rules with the result.
+   * Concurrent calls are queued so that updates never interleave.
+   * @returns Promise that resolves when the dynamic rules are up to date
+   */
+  public sync(): Promise<void> {
+    this.syncInProgress = this.syncInProgress
+      .then(() => this.applySync())
+      .catch(error => console.error('Error syncing network rules:', error));
+    return this.syncInProgress;
+  }
+
+  /**
+   * Perform a single compile-and-replace pass.
+   */
+  private async applySync(): Promise<void> {
+    if (!browser.declarativeNetRequest) return;
+
+    const rules = await RulesService.getInstance().loadRules();
+    const usage = await UsageService.getInstance().loadUsage();
+    const uptimeSec = await getUptimeSeconds();
+    const focusSession = await FocusSessionService.getInstance().loadSession();
+    const settings = await SettingsService.getInstance().loadSettings();
+    const exemptions = await OverrideService.getInstance().loadExemptions();
+    const halalList = await HalalModeService.getInstance().loadListState();
+    const addRules = await this.compileRules(rules, usage, uptimeSec, focusSession, settings, exemptions, halalList);
+
+    const existingRules = await browser.declarativeNetRequest.getDynamicRules();
+
+    // Skip the update when nothing changed; the browser returns rules with its own key order
+    const serialize = (ruleList: DeclarativeNetRequest.Rule[]) => JSON.stringify(ruleList.map(rule => this.normalizeForComparison(rule)));
+    if (serialize(existingRules) === serialize(addRules)) return;
+
+    try {
+      await browser.declarativeNetRequest.updateDynamicRules({
+        removeRuleIds: existingRules.map(rule => rule.id),
+        addRules
+      });
+    } catch (error) {
+      // Leave enforcement entirely to the content script rather than keeping stale rules
+      console.error('Error updating network rules, falling back to content script:', error);
+      await browser.declarativeNetRequest.updateDynamicRules({
+        removeRuleIds: existingRules.map(rule => rule.id)
+      });
+    }
+  }
+
+  /**
+   * Copy a value with the keys of every object sorted, so that rules can be compared
+   * regardless of key order. Undefined values are dropped like JSON does.
+   * @param value - A rule or one of its fields
+   * @returns The normalized copy
+   */
+  private normalizeForComparison(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => this.normalizeForComparison(item));
+    if (typeof value !== 'object' || value === null) return value;
+
+    return Object.fromEntries(Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => [key, this.normalizeForComparison((value as Record<string, unknown>)[key])]));
+  }
+
+  /**
+   * Compile site rules into declarativeNetRequest rules.
+   * Rules are evaluated first-match-wins, which is mapped onto decreasing priorities.
+   * Halal Mode comes first. A running focus phase adds its Block rules before the
+   * regular rules, or its allowlist after them, mirroring the content script
+   * evaluation. In allowlist mode, a catch-all block for web pages comes last.
+   * @param rules - Site rules in evaluation order
+   * @param usage - Usage counters of Limit rules
+   * @param uptimeSec - Seconds since the browser started
+   * @param focusSession - The running focus session (if any)
+   * @param settings - Settings with the allowlist mode and Halal Mode
+   * @param exemptions - Rules temporarily overridden from the alert page
+   * @param halalList - The user's Halal Mode list state
+   * @returns Dynamic rules to install
+   */
+  private async compileRules(rules: SiteRule[], usage: RuleUsageRecord, uptimeSec: number, focusSession: FocusSession | null, settings: PopupSettings, exemptions: RuleExemptionRecord, halalList: HalalListState): Promise<DeclarativeNetRequest.Rule[]> {
+    const ordered: UnorderedRule[] = [];
+    const focusSessionService = FocusSessionService.getInstance();
+    const focusActive = focusSessionService.isFocusActive(focusSession);
+
+    if (settings.halalMode) {
+      ordered.push(...this.compileHalalModeRules(settings, halalList));
+    }
+
+    if (focusActive && focusSession.mode === FocusSessionMode.BlockRules) {
+      ordered.push(...await this.compileFocusBlockRules(focusSession, focusSessionService.getSessionRules(focusSession, rules)));
+    }
+
+    const siteRules = await this.compileSiteRules(rules, usage, uptimeSec, exemptions);
+    ordered.push(...siteRules.compiled);
+
+    if (focusActive && focusSession.mode === FocusSessionMode.Allowlist) {
+      ordered.push(...await this.compileFocusAllowlist(focusSession, focusSessionService.getSessionRules(focusSession, rules)));
+    }
+
+    // The catch-all is only safe when every rule that could let a page through was compiled
+    if (settings.allowlistMode && siteRules.complete) {
+      ordered.push(this.buildRule(ALL_WEB_PAGES_REGEX, this.redirectAction(buildAlertPath({
+        type: 'block',
+        ruleTitle: ALLOWLIST_MODE_TITLE
+      }))));
+    }
+
+    return ordered.map((rule, index) => ({
+      ...rule,
+      id: index + 1,
+      priority: ordered.length - index
+    }));
+  }
+
+  /**
+   * Compile the regular site rules.
+   * Compilation stops at the first active rule that cannot be expressed as a network
+   * condition, because any rule after it might otherwise take precedence over it.
+   * @param rules - Site rules in evaluation order
+   * @param usage - Usage counters of Limit rules
+   * @param uptimeSec - Seconds since the browser started
+   * @param exemptions - Rules temporarily overridden from the alert page
+   * @returns Compiled rules in evaluation order, and whether every active rule was compiled
+   */
+  private async compileSiteRules(rules: SiteRule[], usage: RuleUsageRecord, uptimeSec: number, exemptions: RuleExemptionRecord): Promise<{ compiled: UnorderedRule[]; complete: boolean }> {
+    const rulesService = RulesService.getInstance();
+    const overrideService = OverrideService.getInstance();
+    const activeRules = rules.filter(rule => rule.enabled && rulesService.isRuleScheduledNow(rule));
+    const compiled: UnorderedRule[] = [];
+
+    for (const rule of activeRules) {
+      const regexFilter = this.toRegexFilter(rule);
+      if (!regexFilter || !(await this.isRegexSupported(regexFilter))) {
+        return { compiled, complete: false };
+      }
+
+      // Overridden rules let matching pages through, like the content script does
+      const action = overrideService.isExempt(exemptions, rule.id) ? { type: 'allow' as const } : this.toRuleAction(rule, usage, uptimeSec);
+      compiled.push(this.buildRule(regexFilter, action));
+    }
+
+    return { compiled, complete: true };
+  }
+
+  /**
+   * Compile the Block rules chosen for a focus session.
+   * They only block, so rules that cannot be compiled are simply left to the content script.
+   * @param session - The running focus session
+   * @param sessionRules - Block rules chosen for the session
+   * @returns Compiled rules
+   */
+  private async compileFocusBlockRules(session: FocusSession, sessionRules: SiteRule[]): Promise<UnorderedRule[]> {
+    const compiled: UnorderedRule[] = [];
+
+    for (const rule of sessionRules) {
+      const regexFilter = this.toRegexFilter(rule);
+      if (!regexFilter || !(await this.isRegexSupported(regexFilter))) continue;
+
+      compiled.push(this.buildRule(regexFilter, this.redirectAction(buildAlertPath({
+        type: 'focus',
+        ruleId: rule.id,
+        ruleTitle: rule.title,
+        allowedAt: session.phaseEndsAt
+      }))));
+    }
+
+    return compiled;
+  }
+
+  /**
+   * Compile the allowlist of a focus session: the chosen Allow rules followed by
+   * a catch-all redirect for every other web page. If any Allow rule cannot be
+   * compiled, the allowlist is left entirely to the content script, since the
+   * catch-all would otherwise block pages the allowlist permits.
+   * @param session - The running focus session
+   * @param sessionRules - Allow rules chosen for the session
+   * @returns Compiled rules
+   */
+  private async compileFocusAllowlist(session: FocusSession, sessionRules: SiteRule[]): Promise<UnorderedRule[]> {
+    const compiled: UnorderedRule[] = [];
+
+    for (const rule of sessionRules) {
+      const regexFilter = this.toRegexFilter(rule);
+      if (!regexFilter || !(await this.isRegexSupported(regexFilter))) return [];
+
+      compiled.push(this.buildRule(regexFilter, { type: 'allow' }));
+    }
+
+    compiled.push(this.buildRule(ALL_WEB_PAGES_REGEX, this.redirectAction(buildAlertPath({
+      type: 'focus',
+      ruleTitle: FOCUS_ALLOWLIST_TITLE,
+      allowedAt: session.phaseEndsAt
+    }))));
+
+    return compiled;
+  }
+
+  /**
+   * Compile Halal Mode: a redirect to the alert page for the domains of each enabled
+   * category and the custom domains, except the never-blocked ones, and optionally
+   * safe search on the major search engines and YouTube's restricted mode.
+   * @param settings - Settings with the enabled categories and filters
+   * @param halalList - The user's Halal Mode list state
+   * @returns Compiled rules
+   */
+  private compileHalalModeRules(settings: PopupSettings, halalList: HalalListState): UnorderedRule[] {
+    const compiled: UnorderedRule[] = [];
+    const excludedRequestDomains = halalList.allowedDomains.length > 0 ? halalList.allowedDomains : undefined;
+
+    for (const group of HalalModeService.getInstance().getBlockedDomains(settings, halalList)) {
+      const rule = this.buildRule(ALL_WEB_PAGES_REGEX, this.redirectAction(buildAlertPath({
+        type: 'block',
+        ruleTitle: getHalalModeTitle(group.category)
+      })));
+      compiled.push({
+        ...rule,
+        condition: { ...rule.condition, requestDomains: group.domains, excludedRequestDomains }
+      });
+    }
+
+    if (settings.halalSafeSearch) {
+      for (const engine of SAFE_SEARCH_ENGINES) {
+        compiled.push(this.buildRule(engine.regexFilter, {
+          type: 'redirect',
+          redirect: { transform: { queryTransform: { addOrReplaceParams: [{ key: engine.param, value: engine.value }] } } }
+        }));
+      }
+
+      compiled.push({
+        condition: {
+          requestDomains: YOUTUBE_RESTRICTED_HOSTS,
+          resourceTypes: ['main_frame', 'sub_frame', 'xmlhttprequest']
+        },
+        action: {
+          type: 'modifyHeaders',
+          requestHeaders: [{ header: YOUTUBE_RESTRICT_HEADER.name, operation: 'set', value: YOUTUBE_RESTRICT_HEADER.value }]
+        }
+      });
+    }
+
+    return compiled;
+  }
+
+  /**
+   * Build a rule for top-level navigations matching a regex filter.
+   * @param regexFilter - RE2 regular expression matching the whole URL
+   * @param action - The declarativeNetRequest action
+   * @returns Compiled rule without ID and priority
+   */
+  private buildRule(regexFilter: string, action: DeclarativeNetRequest.RuleActionType): UnorderedRule {
+    return {
+      condition: {
+        regexFilter,
+        isUrlFilterCaseSensitive: true,
+        resourceTypes: RESOURCE_TYPES
+      },
+      action
+    };
+  }
+
+  /**
+   * Build the network action for a site rule.
+   * Block rules and exhausted Limit rules redirect to the alert page, and Redirect
+   * rules to their target; everything else is compiled as an explicit allow so that
+   * it shadows lower-priority rules.
+   * @param rule - The site rule to compile
+   * @param usage - Usage counters of Limit rules
+   * @param uptimeSec - Seconds since the browser started
+   * @returns The declarativeNetRequest action
+   */
+  private toRuleAction(rule: SiteRule, usage: RuleUsageRecord, uptimeSec: number): DeclarativeNetRequest.RuleActionType {
+    switch (rule.action.type) {
+      case SiteRuleActionType.Allow:
+        return { type: 'allow' };
+      case SiteRuleActionType.Block:
+        return this.redirectAction(buildAlertPath({ type: 'block', ruleId: rule.id, ruleTitle: rule.title }));
+      case SiteRuleActionType.Limit: {
+        const ruleUsage = usage[rule.id] || UsageService.getInstance().createUsage();
+        const { allowed, allowedAt } = getLimitStatus(rule.action, ruleUsage, Date.now(), uptimeSec);
+        return allowed
+          ? { type: 'allow' }
+          : this.redirectAction(buildAlertPath({ type: 'limit', ruleId: rule.id, ruleTitle: rule.title, allowedAt }));
+      }
+      case SiteRuleActionType.Redirect: {
+        const { target } = rule.action;
+        if (hasCaptureGroups(target)) {
+          return { type: 'redirect', redirect: { regexSubstitution: toRegexSubstitution(target) } };
+        }
+        // A target the rule matches would loop; the content script lets such pages open as well
+        return matchRule(rule, target) ? { type: 'allow' } : { type: 'redirect', redirect: { url: target } };
+      }
+      default:
+        return assertNever(rule.action);
+    }
+  }
+
+  /**
+   * Build a redirect action to an alert page path.
+   * The original URL is appended as the fragment through the regex substitution.
+   * @param alertPath - Extension-relative alert page path
+   * @returns Redirect action
+   */
+  private redirectAction(alertPath: string): DeclarativeNetRequest.RuleActionType {
+    return {
+      type: 'redirect',
+      redirect: { regexSubstitution: `${browser.runtime.getURL(alertPath)}#\\0` }
+    };
+  }
+
+  /**
+   * Convert a rule pattern into an RE2 regular expression matching the whole URL.
+   * @param rule - The rule to convert
+   * @returns The regex filter, or null if the match type cannot be expressed
+   */
+  private toRegexFilter(rule: SiteRule): string | null {
+    const pattern = this.escapeRegex(rule.pattern);
+
+    switch (rule.matchType) {
+      case SiteRuleMatchType.EqualTo:
+        return `^${pattern}$`;
+      case SiteRuleMatchType.StartsWith:
+        return `^${pattern}.*$`;
+      case SiteRuleMatchType.EndsWith:
+        return `^.*${pattern}$`;
+      case SiteRuleMatchType.Contains:
+        return `^.*${pattern}.*$`;
+      case SiteRuleMatchType.Regex:
+        // The lazy prefix makes capture groups match where a regular search finds them
+        return `^.*?(?:${rule.pattern}).*$`;
+      case SiteRuleMatchType.NotEqualTo:
+      case SiteRuleMatchType.NotStartsWith:
+      case SiteRuleMatchType.NotEndsWith:
+      case SiteRuleMatchType.NotContains:
+      case SiteRuleMatchType.NotRegex:
+        // Negated conditions have no network equivalent
+        return null;
+      case SiteRuleMatchType.Domain:
+      case SiteRuleMatchType.ExactHost:
+      case SiteRuleMatchType.PathPrefix:
+      case SiteRuleMatchType.QueryParam:
+      case SiteRuleMatchType.Wildcard:
+        return toStructuredRegex(rule.matchType, rule.pattern);
+      default:
+        return assertNever(rule.matchType);
+    }
+  }
+
+  /**
+   * Check whether the browser accepts a regex filter.
+   * Browsers without the check are assumed to support it; invalid rules
+   * are then caught when the rules are installed.
+   * @param regex - The regex filter to check
+   * @returns True if the regex can be used
+   */
+  private async isRegexSupported(regex: string): Promise<boolean> {
+    try {
+      new RegExp(regex);
+    } catch {
+      return false;
+    }
+
+    if (typeof browser.declarativeNetRequest.isRegexSupported !== 'function') return true;
+
+    try {
+      const result = await browser.declarativeNetRequest.isRegexSupported({ regex, isCaseSensitive: true });
+      return result.isSupported;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Escape a literal string for use in a regular expression.
+   * @param text - Literal text
+   * @returns Escaped text
+   */
+  private escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+}
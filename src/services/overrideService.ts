@@ -0,0 +1,197 @@
+/**
+ * Rule Override Service
+ *
+ * Grants temporary exemptions for Block and Limit rules when the user chooses
+ * "Continue anyway" on the alert page, and keeps a log of every override with
+ * its reason. The background script removes exemptions once they expire so
+ * that blocking resumes automatically.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { OverrideFriction, RuleExemptionRecord, RuleOverride } from '../types/RuleOverride';
+import { CommitmentService } from './commitmentService';
+
+/** Name of the alarm that fires when the next exemption expires */
+const EXEMPTION_EXPIRY_ALARM = 'keepMeFocus_exemptionExpiry';
+
+/** Number of overrides kept in the log */
+const OVERRIDE_LOG_LIMIT = 500;
+
+/** Phrase that must be typed for the phrase friction step */
+export const OVERRIDE_PHRASE = 'I am choosing distraction over my goals';
+
+/** Seconds to wait for the wait friction step */
+export const OVERRIDE_WAIT_SECONDS = 30;
+
+/** Minimum reason length for the reason friction step */
+export const OVERRIDE_REASON_MIN_LENGTH = 50;
+
+/**
+ * Override requested from the alert page.
+ */
+export interface OverrideRequest {
+  /** ID of the rule to override */
+  ruleId: string;
+
+  /** Title of the rule */
+  ruleTitle: string;
+
+  /** URL the user wants to continue to */
+  url: string;
+
+  /** Reason given by the user */
+  reason: string;
+
+  /** Friction step that was completed */
+  friction: OverrideFriction;
+
+  /** Minutes the rule stays exempt */
+  minutes: number;
+}
+
+/**
+ * Singleton service for granting, checking and logging rule overrides.
+ */
+export class OverrideService {
+  /** Singleton instance */
+  private static instance: OverrideService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the override service.
+   * @returns The OverrideService instance
+   */
+  public static getInstance(): OverrideService {
+    if (!OverrideService.instance) {
+      OverrideService.instance = new OverrideService();
+    }
+    return OverrideService.instance;
+  }
+
+  /**
+   * Start expiring exemptions: listen to the expiry alarm and schedule it.
+   * Must be called synchronously when the background script loads so that
+   * the alarm waking the background script is not missed.
+   */
+  public run(): void {
+    browser.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === EXEMPTION_EXPIRY_ALARM) this.expireExemptions();
+    });
+
+    this.expireExemptions();
+  }
+
+  /**
+   * Load the active exemptions.
+   * Expired entries may still be present until the background script removes them.
+   * @returns Promise that resolves to the exemptions keyed by rule ID
+   */
+  public async loadExemptions(): Promise<RuleExemptionRecord> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.RULE_EXEMPTIONS);
+      return (result[STORAGE_KEYS.RULE_EXEMPTIONS] as RuleExemptionRecord) || {};
+    } catch (error) {
+      console.error('Error loading rule exemptions:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Check whether a rule is exempt at a given time.
+   * @param exemptions - The active exemptions
+   * @param ruleId - ID of the rule
+   * @param now - Current timestamp
+   * @returns True if the rule is currently overridden
+   */
+  public isExempt(exemptions: RuleExemptionRecord, ruleId: string, now: number = Date.now()): boolean {
+    return (exemptions[ruleId] || 0) > now;
+  }
+
+  /**
+   * Check whether a rule is currently exempt.
+   * @param ruleId - ID of the rule
+   * @returns Promise that resolves to true if the rule is currently overridden
+   */
+  public async isRuleExempt(ruleId: string): Promise<boolean> {
+    return this.isExempt(await this.loadExemptions(), ruleId);
+  }
+
+  /**
+   * Load the log of past overrides, newest first.
+   * @returns Promise that resolves to the logged overrides
+   */
+  public async loadLog(): Promise<RuleOverride[]> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.OVERRIDE_LOG);
+      return (result[STORAGE_KEYS.OVERRIDE_LOG] as RuleOverride[]) || [];
+    } catch (error) {
+      console.error('Error loading override log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Exempt a rule for a number of minutes and record the override.
+   * An exemption loosens the rules, so it is refused while a commitment prevents that.
+   * @param request - The override requested from the alert page
+   * @returns Promise that resolves to the recorded override
+   * @throws CommitmentLockedError if rules cannot be loosened right now
+   */
+  public async grantOverride(request: OverrideRequest): Promise<RuleOverride> {
+    await CommitmentService.getInstance().assertCanLoosen();
+
+    const grantedAt = Date.now();
+    const override: RuleOverride = {
+      ruleId: request.ruleId,
+      ruleTitle: request.ruleTitle,
+      url: request.url,
+      reason: request.reason,
+      friction: request.friction,
+      grantedAt,
+      expiresAt: grantedAt + request.minutes * 60 * 1000
+    };
+
+    const exemptions = await this.loadExemptions();
+    exemptions[override.ruleId] = override.expiresAt;
+
+    const log = await this.loadLog();
+    log.unshift(override);
+
+    await browser.storage.local.set({
+      [STORAGE_KEYS.RULE_EXEMPTIONS]: exemptions,
+      [STORAGE_KEYS.OVERRIDE_LOG]: log.slice(0, OVERRIDE_LOG_LIMIT)
+    });
+
+    return override;
+  }
+
+  /**
+   * Remove expired exemptions and schedule the alarm for the next expiry.
+   * Removing an exemption triggers a storage change, which makes open pages
+   * and network rules enforce the rule again.
+   * @returns Promise that resolves when expired exemptions are removed
+   */
+  public async expireExemptions(): Promise<void> {
+    try {
+      const exemptions = await this.loadExemptions();
+      const now = Date.now();
+      const expiredIds = Object.keys(exemptions).filter(ruleId => !this.isExempt(exemptions, ruleId, now));
+
+      if (expiredIds.length > 0) {
+        expiredIds.forEach(ruleId => delete exemptions[ruleId]);
+        await browser.storage.local.set({ [STORAGE_KEYS.RULE_EXEMPTIONS]: exemptions });
+      }
+
+      const nextExpiry = Math.min(...Object.values(exemptions));
+      if (Number.isFinite(nextExpiry)) {
+        browser.alarms.create(EXEMPTION_EXPIRY_ALARM, { when: nextExpiry });
+      } else {
+        await browser.alarms.clear(EXEMPTION_EXPIRY_ALARM);
+      }
+    } catch (error) {
+      console.error('Error expiring rule exemptions:', error);
+    }
+  }
+}
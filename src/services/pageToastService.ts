@@ -0,0 +1,94 @@
+/**
+ * Page Toast Service
+ *
+ * Shows short messages, such as limit warnings, as a toast on top of the web page.
+ * The toast lives in a closed shadow root with inline styles, so the page's
+ * styles and scripts cannot change or hide it.
+ */
+
+/** How long a toast stays visible, in milliseconds */
+const TOAST_DURATION_MS = 10 * 1000;
+
+/** Styles of the toast host, reset so that page styles do not apply */
+const HOST_STYLE = 'all: initial; position: fixed; top: 16px; right: 16px; z-index: 2147483647;';
+
+/** Styles of the toast card */
+const TOAST_STYLE = [
+  'display: flex', 'align-items: flex-start', 'gap: 12px', 'max-width: 320px', 'padding: 12px 16px',
+  'background: #FFFBEB', 'color: #78350F', 'border: 1px solid #FCD34D', 'border-radius: 8px',
+  'box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15)', 'font: 14px/1.4 system-ui, -apple-system, sans-serif'
+].join('; ');
+
+/**
+ * Singleton service for showing toasts on the current page.
+ */
+export class PageToastService {
+  /** Singleton instance */
+  private static instance: PageToastService;
+
+  /** Host element of the visible toast (null if none) */
+  private host: HTMLElement | null = null;
+
+  /** Timer hiding the visible toast */
+  private hideTimer: number | undefined;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the page toast service.
+   * @returns The PageToastService instance
+   */
+  public static getInstance(): PageToastService {
+    if (!PageToastService.instance) {
+      PageToastService.instance = new PageToastService();
+    }
+    return PageToastService.instance;
+  }
+
+  /**
+   * Show a toast, replacing the one currently visible.
+   * @param title - Bold first line
+   * @param message - Text below the title
+   */
+  public show(title: string, message: string): void {
+    this.hide();
+
+    const host = document.createElement('div');
+    host.setAttribute('style', HOST_STYLE);
+    const shadow = host.attachShadow({ mode: 'closed' });
+
+    const toast = document.createElement('div');
+    toast.setAttribute('style', TOAST_STYLE);
+    toast.setAttribute('role', 'status');
+
+    const text = document.createElement('div');
+    const titleElement = document.createElement('div');
+    titleElement.setAttribute('style', 'font-weight: 600; margin-bottom: 2px;');
+    titleElement.textContent = title;
+    const messageElement = document.createElement('div');
+    messageElement.textContent = message;
+    text.append(titleElement, messageElement);
+
+    const closeButton = document.createElement('button');
+    closeButton.setAttribute('style', 'all: unset; cursor: pointer; font-size: 18px; line-height: 1; color: inherit;');
+    closeButton.setAttribute('aria-label', 'Close');
+    closeButton.textContent = '×';
+    closeButton.addEventListener('click', () => this.hide());
+
+    toast.append(text, closeButton);
+    shadow.appendChild(toast);
+    (document.body || document.documentElement).appendChild(host);
+
+    this.host = host;
+    this.hideTimer = window.setTimeout(() => this.hide(), TOAST_DURATION_MS);
+  }
+
+  /**
+   * Remove the visible toast, if any.
+   */
+  public hide(): void {
+    window.clearTimeout(this.hideTimer);
+    this.host?.remove();
+    this.host = null;
+  }
+}
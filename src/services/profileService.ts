@@ -0,0 +1,177 @@
+/**
+ * Profile Service
+ *
+ * Manages named rule profiles. Each profile stores its rules under its own
+ * sync storage key; the active profile decides which rules are enforced.
+ * Rules saved before profiles existed belong to the default profile.
+ */
+
+import browser from 'webextension-polyfill';
+import { DEFAULT_PROFILE_ID, STORAGE_KEYS, getRulesStorageKey } from '../config/storage';
+import { Profile, ProfileState } from '../types/Profile';
+import { SiteRule } from '../types/SiteRule';
+import { CommitmentService } from './commitmentService';
+
+/** Profile state used until the user creates profiles */
+const DEFAULT_PROFILE_STATE: ProfileState = {
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default' }],
+  activeProfileId: DEFAULT_PROFILE_ID
+};
+
+/**
+ * Singleton service for managing rule profiles.
+ */
+export class ProfileService {
+  /** Singleton instance */
+  private static instance: ProfileService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the profile service.
+   * @returns The ProfileService instance
+   */
+  public static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  /**
+   * Load the profiles and the active profile.
+   * @returns Promise that resolves to the profile state
+   */
+  public async loadProfiles(): Promise<ProfileState> {
+    try {
+      const result = await browser.storage.sync.get(STORAGE_KEYS.PROFILES);
+      const state = result[STORAGE_KEYS.PROFILES] as ProfileState | undefined;
+      return state && state.profiles.length > 0 ? state : { ...DEFAULT_PROFILE_STATE, profiles: [...DEFAULT_PROFILE_STATE.profiles] };
+    } catch (error) {
+      console.error('Error loading profiles:', error);
+      return { ...DEFAULT_PROFILE_STATE, profiles: [...DEFAULT_PROFILE_STATE.profiles] };
+    }
+  }
+
+  /**
+   * Get the ID of the active profile.
+   * @returns Promise that resolves to the active profile ID
+   */
+  public async getActiveProfileId(): Promise<string> {
+    const state = await this.loadProfiles();
+    return state.profiles.some(profile => profile.id === state.activeProfileId)
+      ? state.activeProfileId
+      : state.profiles[0].id;
+  }
+
+  /**
+   * Activate a profile. Open tabs and network rules pick up the change from storage.
+   * Switching profiles may loosen the enforced rules, so it is not possible during a commitment.
+   * @param profileId - ID of the profile to activate
+   * @returns Promise that resolves when the profile is active
+   * @throws CommitmentLockedError if a commitment prevents loosening the rules
+   */
+  public async setActiveProfile(profileId: string): Promise<void> {
+    const state = await this.loadProfiles();
+    if (!state.profiles.some(profile => profile.id === profileId)) return;
+    if (profileId !== await this.getActiveProfileId()) {
+      await CommitmentService.getInstance().assertCanLoosen();
+    }
+
+    await this.saveProfiles({ ...state, activeProfileId: profileId });
+  }
+
+  /**
+   * Create a new, empty profile.
+   * @param name - Display name of the profile
+   * @returns Promise that resolves to the new profile
+   */
+  public async createProfile(name: string): Promise<Profile> {
+    const state = await this.loadProfiles();
+    const profile: Profile = {
+      id: `profile_${Date.now().toString(36)}`,
+      name
+    };
+
+    await this.saveProfiles({ ...state, profiles: [...state.profiles, profile] });
+    return profile;
+  }
+
+  /**
+   * Rename a profile.
+   * @param profileId - ID of the profile
+   * @param name - New display name
+   * @returns Promise that resolves when the profile is renamed
+   */
+  public async renameProfile(profileId: string, name: string): Promise<void> {
+    const state = await this.loadProfiles();
+    await this.saveProfiles({
+      ...state,
+      profiles: state.profiles.map(profile => profile.id === profileId ? { ...profile, name } : profile)
+    });
+  }
+
+  /**
+   * Delete a profile and its rules.
+   * The default profile cannot be deleted. If the active profile is deleted,
+   * the default profile becomes active.
+   * @param profileId - ID of the profile
+   * @returns Promise that resolves to true if the profile was deleted
+   * @throws CommitmentLockedError if the active profile is deleted during a commitment
+   */
+  public async deleteProfile(profileId: string): Promise<boolean> {
+    if (profileId === DEFAULT_PROFILE_ID) return false;
+    if (profileId === await this.getActiveProfileId()) {
+      await CommitmentService.getInstance().assertCanLoosen();
+    }
+
+    const state = await this.loadProfiles();
+    const profiles = state.profiles.filter(profile => profile.id !== profileId);
+    if (profiles.length === state.profiles.length) return false;
+
+    await browser.storage.sync.remove(getRulesStorageKey(profileId));
+    await this.saveProfiles({
+      profiles,
+      activeProfileId: state.activeProfileId === profileId ? DEFAULT_PROFILE_ID : state.activeProfileId
+    });
+    return true;
+  }
+
+  /**
+   * Load the rules of a profile.
+   * @param profileId - ID of the profile
+   * @returns Promise that resolves to the profile's rules
+   */
+  public async loadProfileRules(profileId: string): Promise<SiteRule[]> {
+    try {
+      const key = getRulesStorageKey(profileId);
+      const result = await browser.storage.sync.get(key);
+      return (result[key] as SiteRule[]) || [];
+    } catch (error) {
+      console.error('Error loading profile rules:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Load the rules of all profiles, e.g. to keep counters of inactive profiles.
+   * @returns Promise that resolves to every rule of every profile
+   */
+  public async loadAllRules(): Promise<SiteRule[]> {
+    const state = await this.loadProfiles();
+    const ruleSets = await Promise.all(state.profiles.map(profile => this.loadProfileRules(profile.id)));
+    return ruleSets.flat();
+  }
+
+  /**
+   * Save the profile state.
+   * @param state - The profile state to save
+   */
+  private async saveProfiles(state: ProfileState): Promise<void> {
+    try {
+      await browser.storage.sync.set({ [STORAGE_KEYS.PROFILES]: state });
+    } catch (error) {
+      console.error('Error saving profiles:', error);
+    }
+  }
+}
@@ -6,11 +6,24 @@
  * Supports multiple rule types: Allow, Block, and Limit with various matching patterns.
  */
 
-import { SiteRule, SiteRuleActionType } from '../types/SiteRule';
+import { SiteRule } from '../types/SiteRule';
 import browser from 'webextension-polyfill';
-import { siteRulesMatcher } from '../utils/siteRulesMatcher';
+import { RuleDecision, RuleEvaluation } from '../types/RuleEvaluation';
+import { RuleUsageRecord } from '../types/RuleUsage';
+import { evaluateRules } from '../utils/ruleEvaluator';
+import { CompiledRuleSet, compileRuleSet, findFirstMatch } from '../utils/ruleMatcher';
+import { isScheduleActive } from '../utils/scheduleMatcher';
 import assertNever from '../utils/assertNever';
-import { STORAGE_KEYS } from '../config/storage';
+import { getRulesStorageKey } from '../config/storage';
+import { AlertPageParams, buildAlertPath } from '../utils/alertUrl';
+import { LimitStatus } from '../utils/limitStatus';
+import { FocusSessionService } from './focusSessionService';
+import { SettingsService } from './settingsService';
+import { OverrideService } from './overrideService';
+import { ProfileService } from './profileService';
+import { CommitmentService } from './commitmentService';
+import { HalalModeService } from './halalModeService';
+import { isLooseningAddition, isLooseningEdit, isLooseningRemoval } from '../utils/ruleStrictness';
 
 /**
  * Singleton service for managing site access rules and their enforcement.
@@ -24,11 +37,20 @@ export class RulesService {
   /** In-memory cache of loaded rules */
   private rules: SiteRule[] = [];
 
+  /** Loaded rules compiled for matching, rebuilt whenever the rules change */
+  private ruleSet: CompiledRuleSet = compileRuleSet([]);
+
   /** Flag indicating whether rules have been loaded from storage */
   private rulesLoaded: boolean = false;
 
-  /** Flag to prevent multiple limit rule update intervals from running simultaneously */
-  private limitRuleUpdateIntervalRunning: boolean = false;
+  /** Profile whose rules are managed; null follows the active profile */
+  private profileId: string | null = null;
+
+  /** Profile whose rules are currently loaded */
+  private loadedProfileId: string | null = null;
+
+  /** Whether the rules were applied to this page before, i.e. the page is already open (content script) */
+  private pageApplied: boolean = false;
 
   private constructor() { }
 
@@ -44,20 +66,47 @@ export class RulesService {
   }
 
   /**
-   * Load rules from browser storage into memory.
+   * Choose the profile whose rules are loaded and edited, e.g. on the options page.
+   * By default the service follows the active profile.
+   * @param profileId - ID of the profile, or null to follow the active profile
+   */
+  public setProfile(profileId: string | null): void {
+    this.profileId = profileId;
+    this.rulesLoaded = false;
+  }
+
+  /**
+   * Get the ID of the profile whose rules are currently loaded.
+   * @returns The profile ID, or null if no rules have been loaded yet
+   */
+  public getProfileId(): string | null {
+    return this.loadedProfileId;
+  }
+
+  /**
+   * Load rules of the managed profile from browser storage into memory.
    * @returns Promise that resolves to the loaded rules array
    */
   public async loadRules(): Promise<SiteRule[]> {
     this.rulesLoaded = true;
     try {
-      const result = await browser.storage.sync.get(STORAGE_KEYS.SITE_RULES);
-      this.rules = (result[STORAGE_KEYS.SITE_RULES] as SiteRule[]) || [];
-      return this.rules;
+      this.loadedProfileId = this.profileId ?? await ProfileService.getInstance().getActiveProfileId();
+      this.rules = await ProfileService.getInstance().loadProfileRules(this.loadedProfileId);
     } catch (error) {
       console.error('Error loading rules:', error);
       this.rules = [];
-      return this.rules;
     }
+    this.ruleSet = compileRuleSet(this.rules);
+    return this.rules;
+  }
+
+  /**
+   * Load rules unless they are already in memory.
+   * Callers that keep rules across storage changes reload them from a storage listener.
+   * @returns Promise that resolves to the loaded rules array
+   */
+  public async ensureRulesLoaded(): Promise<SiteRule[]> {
+    return this.rulesLoaded ? this.rules : this.loadRules();
   }
 
   /**
@@ -65,8 +114,11 @@ export class RulesService {
    * @returns Promise that resolves when rules are saved
    */
   public async saveRules(): Promise<void> {
+    if (!this.loadedProfileId) return;
+    this.ruleSet = compileRuleSet(this.rules);
+
     try {
-      await browser.storage.sync.set({ [STORAGE_KEYS.SITE_RULES]: this.rules });
+      await browser.storage.sync.set({ [getRulesStorageKey(this.loadedProfileId)]: this.rules });
     } catch (error) {
       console.error('Error saving rules:', error);
     }
@@ -91,30 +143,81 @@ export class RulesService {
   /**
    * Add a new rule to the collection.
    * @param ruleData - Rule data without ID (ID will be generated)
+   * @param first - Whether to evaluate the rule before all others instead of after them
+   * @param idPrefix - Prefix of the generated ID, marking where the rule was created
    * @returns Promise that resolves to the newly created rule
+   * @throws CommitmentLockedError if the rule loosens the rules during a commitment
    */
-  public async addRule(ruleData: Omit<SiteRule, 'id'>): Promise<SiteRule> {
+  public async addRule(ruleData: Omit<SiteRule, 'id'>, first: boolean = false, idPrefix: string = ''): Promise<SiteRule> {
+    await this.checkCommitment(isLooseningAddition(ruleData, first));
+
     const newRule: SiteRule = {
-      id: this.generateId(),
+      id: idPrefix + this.generateId(),
       ...ruleData
     };
 
-    this.rules.push(newRule);
+    if (first) {
+      this.rules.unshift(newRule);
+    } else {
+      this.rules.push(newRule);
+    }
     await this.saveRules();
     return newRule;
   }
 
+  /**
+   * Add several rules at once, each with a freshly generated ID.
+   * @param rulesData - Rules without IDs, in evaluation order
+   * @param replace - Whether to remove all existing rules first
+   * @returns Promise that resolves to the added rules
+   * @throws CommitmentLockedError if the import loosens the rules during a commitment
+   */
+  public async importRules(rulesData: Omit<SiteRule, 'id'>[], replace: boolean): Promise<SiteRule[]> {
+    await this.checkCommitment((replace && this.rules.some(isLooseningRemoval))
+      || rulesData.some(ruleData => isLooseningAddition(ruleData, false)));
+
+    const newRules = rulesData.map(ruleData => ({
+      id: this.generateId(),
+      ...ruleData
+    }));
+
+    this.rules = replace ? newRules : [...this.rules, ...newRules];
+    await this.saveRules();
+    return newRules;
+  }
+
+  /**
+   * Append copies of all current rules, with fresh IDs, to another profile.
+   * @param targetProfileId - ID of the profile to copy the rules to
+   * @returns Promise that resolves to the number of copied rules
+   * @throws CommitmentLockedError if the copies loosen the active profile during a commitment
+   */
+  public async copyRulesToProfile(targetProfileId: string): Promise<number> {
+    if (targetProfileId === this.loadedProfileId) return 0;
+    await this.checkCommitment(this.rules.some(rule => isLooseningAddition(rule, false)), targetProfileId);
+
+    const targetRules = await ProfileService.getInstance().loadProfileRules(targetProfileId);
+    const copies = this.rules.map(rule => ({ ...rule, id: this.generateId() }));
+
+    await browser.storage.sync.set({ [getRulesStorageKey(targetProfileId)]: [...targetRules, ...copies] });
+    return copies.length;
+  }
+
   /**
    * Update an existing rule with new data.
    * @param ruleId - ID of the rule to update
    * @param updates - Partial rule data to update
    * @returns Promise that resolves to the updated rule or null if not found
+   * @throws CommitmentLockedError if the update loosens the rule during a commitment
    */
   public async updateRule(ruleId: string, updates: Partial<Omit<SiteRule, 'id'>>): Promise<SiteRule | null> {
     const index = this.rules.findIndex(r => r.id === ruleId);
     if (index === -1) return null;
 
-    this.rules[index] = { ...this.rules[index], ...updates };
+    const updatedRule = { ...this.rules[index], ...updates };
+    await this.checkCommitment(isLooseningEdit(this.rules[index], updatedRule));
+
+    this.rules[index] = updatedRule;
     await this.saveRules();
     return this.rules[index];
   }
@@ -123,8 +226,12 @@ export class RulesService {
    * Delete a rule by its ID.
    * @param ruleId - ID of the rule to delete
    * @returns Promise that resolves to true if rule was deleted, false if not found
+   * @throws CommitmentLockedError if deleting the rule loosens the rules during a commitment
    */
   public async deleteRule(ruleId: string): Promise<boolean> {
+    const rule = this.getRuleById(ruleId);
+    await this.checkCommitment(!!rule && isLooseningRemoval(rule));
+
     const initialLength = this.rules.length;
     this.rules = this.rules.filter(r => r.id !== ruleId);
 
@@ -139,6 +246,7 @@ export class RulesService {
    * Toggle the enabled/disabled state of a rule.
    * @param ruleId - ID of the rule to toggle
    * @returns Promise that resolves to the updated rule or null if not found
+   * @throws CommitmentLockedError if disabling the rule loosens the rules during a commitment
    */
   public async toggleRule(ruleId: string): Promise<SiteRule | null> {
     const rule = this.rules.find(r => r.id === ruleId);
@@ -151,6 +259,7 @@ export class RulesService {
    * Reorder rules based on a new order array.
    * @param newOrder - Array of rule IDs in the desired order
    * @returns Promise that resolves when reordering is complete
+   * @throws CommitmentLockedError if the order changes during a commitment
    */
   public async reorderRules(newOrder: string[]): Promise<void> {
     const reorderedRules: SiteRule[] = [];
@@ -170,10 +279,28 @@ export class RulesService {
       }
     });
 
+    // A moved rule can take over pages of a stricter rule
+    await this.checkCommitment(reorderedRules.some((rule, index) => rule.id !== this.rules[index].id));
+
     this.rules = reorderedRules;
     await this.saveRules();
   }
 
+  /**
+   * Make sure a change may be made under the commitment lock.
+   * Only the active profile is protected, since the rules of other profiles are not enforced.
+   * @param loosens - Whether the change loosens the rules
+   * @param profileId - Profile whose rules change (defaults to the loaded profile)
+   * @returns Promise that resolves if the change is allowed
+   * @throws CommitmentLockedError if the change loosens the enforced rules during a commitment
+   */
+  private async checkCommitment(loosens: boolean, profileId: string | null = this.loadedProfileId): Promise<void> {
+    if (!loosens) return;
+    if (profileId !== await ProfileService.getInstance().getActiveProfileId()) return;
+
+    await CommitmentService.getInstance().assertCanLoosen();
+  }
+
   /**
    * Get a specific rule by its ID.
    * @param ruleId - ID of the rule to retrieve
@@ -185,174 +312,123 @@ export class RulesService {
 
   /**
    * Apply rules to the current page URL.
-   * Checks all enabled rules against the current URL and enforces matching rules.
+   * Evaluates the rules against the current URL and enforces the decision.
+   * In allowlist mode, web pages without a matching rule are blocked.
    * @returns Promise that resolves when rule application is complete
    */
   public async applyRule(): Promise<void> {
 
-    if (!this.rulesLoaded) {
-      await this.loadRules();
-    }
+    await this.ensureRulesLoaded();
 
     const currentUrl = window.location.href;
-    const matchedRules = this.rules.find((rule: SiteRule) =>
-      rule.enabled && this.ruleMatchWithUrl(rule, currentUrl)
-    );
-
-    if (matchedRules) {
-      switch (matchedRules.action.type) {
-        case SiteRuleActionType.Allow:
-          // Allow action does not require any specific handling
-          console.log(`Allowing access to ${matchedRules.pattern}`);
-          return;
-        case SiteRuleActionType.Block:
-          return this.applyBlockRule(matchedRules, currentUrl);
-        case SiteRuleActionType.Limit:
-          return this.applyLimitRule(matchedRules, currentUrl);
-        default:
-          return assertNever(matchedRules.action);
-      }
+    const evaluation = await this.evaluateUrl(currentUrl);
+    const pageOpen = this.pageApplied;
+    this.pageApplied = true;
+
+    switch (evaluation.decision) {
+      case RuleDecision.None:
+        return;
+      case RuleDecision.Allow:
+        // Allow action does not require any specific handling
+        console.log(`Allowing access to ${evaluation.rule?.pattern}`);
+        return;
+      case RuleDecision.Exempt:
+        // The rule is paused by an override
+        return;
+      case RuleDecision.Limit:
+        return evaluation.rule && this.applyLimitRule(evaluation.rule, currentUrl, pageOpen);
+      case RuleDecision.Redirect:
+        // Replace the history entry so that going back does not redirect again
+        if (evaluation.redirectUrl) window.location.replace(evaluation.redirectUrl);
+        return;
+      case RuleDecision.Block:
+      case RuleDecision.Focus:
+      case RuleDecision.AllowlistMode:
+      case RuleDecision.HalalMode:
+        return evaluation.alert && this.redirectToAlertPage(evaluation.alert);
+      default:
+        return assertNever(evaluation.decision);
     }
   }
 
   /**
-   * Check if a rule pattern matches the given URL.
-   * @param rule - The rule to check
-   * @param url - The URL to match against
-   * @returns True if the rule matches the URL
+   * Evaluate the loaded rules against a URL with the current focus session,
+   * overrides, settings and Halal Mode list.
+   * @param url - The URL to evaluate
+   * @param limitState - Usage counters and uptime, to evaluate the limit status as well
+   * @returns Promise that resolves to the evaluation with a trace of every rule
    */
-  private ruleMatchWithUrl(rule: SiteRule, url: string): boolean {
-    const matcher = siteRulesMatcher[rule.matchType];
-    if (matcher) {
-      return matcher(url, rule.pattern);
-    } else {
-      console.warn(`No matcher found for match type: ${rule.matchType}`);
-      return false;
-    }
+  public async evaluateUrl(url: string, limitState?: { usage: RuleUsageRecord; uptimeSec: number }): Promise<RuleEvaluation> {
+    const now = Date.now();
+    const focusSessionService = FocusSessionService.getInstance();
+    const halalModeService = HalalModeService.getInstance();
+    const [session, exemptions, settings, halalList] = await Promise.all([
+      focusSessionService.loadSession(),
+      OverrideService.getInstance().loadExemptions(),
+      SettingsService.getInstance().loadSettings(),
+      halalModeService.loadListState()
+    ]);
+
+    return evaluateRules(url, {
+      ruleSet: this.ruleSet,
+      now,
+      allowlistMode: settings.allowlistMode,
+      exemptions,
+      focusBlock: focusSessionService.getFocusBlock(session, this.rules, url, now),
+      halalMatch: halalModeService.findMatch(url, settings, halalList),
+      ...limitState
+    });
   }
 
   /**
-   * Apply a block rule by redirecting to the alert page.
-   * @param rule - The block rule to apply
-   * @param currentUrl - The current page URL
+   * Find the rule that applies to a URL.
+   * Rules are evaluated in order and the first enabled, in-schedule match wins.
+   * @param url - The URL to evaluate
+   * @returns The matching rule, or undefined if no rule applies
    */
-  private applyBlockRule(rule: SiteRule, currentUrl: string): void {
-    return this.redirectToAlertPage({
-      type: 'block',
-      currentUrl,
-      ruleTitle: rule.title
-    });
+  public findMatchingRule(url: string): SiteRule | undefined {
+    return findFirstMatch(this.ruleSet, url, rule => rule.enabled && this.isRuleScheduledNow(rule));
   }
 
   /**
-   * Apply a limit rule with time tracking and enforcement.
-   * @param rule - The limit rule to apply
-   * @param currentUrl - The current page URL
-   * @returns Promise that resolves when limit rule is applied
+   * Check if a rule is within its schedule at the current time.
+   * Rules without a schedule are always considered active.
+   * @param rule - The rule to check
+   * @returns True if the rule should be evaluated now
    */
-  private async applyLimitRule(rule: SiteRule, currentUrl: string): Promise<void> {
-
-    if (rule.action.type === SiteRuleActionType.Limit) {
-      await this.updateLimitRuleUsage(rule);
-
-      const { allowedMinutes, resetAfterMinutes, delayMinutes, usedMinutes, lastResetAt, lastUsedAt } = rule.action;
-      const delaySeconds = delayMinutes * 60;
-      const { uptimeSec } = await browser.runtime.sendMessage({ action: 'getUptime' }) as { uptimeSec: number };
-
-
-      if (delaySeconds > uptimeSec) {
-        return this.redirectToAlertPage({
-          type: 'limit',
-          currentUrl,
-          ruleTitle: rule.title,
-          allowedAt: Date.now() + (delaySeconds - uptimeSec) * 1000,
-        });
-      } else if (usedMinutes >= allowedMinutes) {
-        return this.redirectToAlertPage({
-          type: 'limit',
-          currentUrl,
-          ruleTitle: rule.title,
-          allowedAt: lastResetAt + resetAfterMinutes * 60 * 1000,
-        });
-      } else {
-
-        // Start interval to track usage while on the page
-        if (!this.limitRuleUpdateIntervalRunning) {
-
-          this.limitRuleUpdateIntervalRunning = true;
-
-          const intervalId = setInterval(async () => {
-            await this.loadRules();
-            const freshedRule = this.getRuleById(rule.id);
-
-            if (!freshedRule || !freshedRule.enabled || !this.ruleMatchWithUrl(freshedRule, currentUrl) || freshedRule.action.type !== SiteRuleActionType.Limit) {
-              return clearInterval(intervalId);
-            }
-
-            const { allowedMinutes, resetAfterMinutes, usedMinutes, lastResetAt } = freshedRule.action;
-
-            if (usedMinutes >= allowedMinutes) {
-              clearInterval(intervalId);
-              return this.redirectToAlertPage({
-                type: 'limit',
-                currentUrl,
-                ruleTitle: rule.title,
-                allowedAt: lastResetAt + resetAfterMinutes * 60 * 1000,
-              });
-            } else {
-              await this.updateLimitRuleUsage(freshedRule);
-            }
-          }, 5000);
-        }
-      }
-
-    }
-
+  public isRuleScheduledNow(rule: SiteRule): boolean {
+    return !rule.schedule || isScheduleActive(rule.schedule);
   }
 
   /**
-   * Update the usage tracking for a limit rule.
-   * @param rule - The limit rule to update
-   * @returns Promise that resolves when usage is updated
+   * Apply a limit rule by asking the background script whether access is allowed.
+   * Usage is counted centrally by the background script, which also sends the tab
+   * to the alert page when the budget runs out while the page is open.
+   * @param rule - The limit rule to apply
+   * @param currentUrl - The current page URL
+   * @param pageOpen - Whether the page was open before, e.g. for in-page navigation, so the grace period applies
+   * @returns Promise that resolves when limit rule is applied
    */
-  private async updateLimitRuleUsage(rule: SiteRule): Promise<void> {
-
-    if (rule.action.type === SiteRuleActionType.Limit) {
-
-      const currentTime = Date.now();
-
-      // Update used minutes if last usage was recent (within 30 seconds)
-      if (currentTime - rule.action.lastUsedAt <= 30000) {
-        rule.action.usedMinutes += (currentTime - rule.action.lastUsedAt) / 60000;
-      }
-
-      // Reset usage if reset period has elapsed
-      if (currentTime - rule.action.lastResetAt >= rule.action.resetAfterMinutes * 60 * 1000) {
-        rule.action.usedMinutes = 0;
-        rule.action.lastResetAt = currentTime;
-      }
-
-      rule.action.lastUsedAt = currentTime;
-
-      await this.saveRules();
+  private async applyLimitRule(rule: SiteRule, currentUrl: string, pageOpen: boolean): Promise<void> {
+    const { allowed, allowedAt } = await browser.runtime.sendMessage({ action: 'checkLimit', ruleId: rule.id, pageOpen }) as LimitStatus;
+
+    if (!allowed) {
+      return this.redirectToAlertPage({
+        type: 'limit',
+        currentUrl,
+        ruleId: rule.id,
+        ruleTitle: rule.title,
+        allowedAt
+      });
     }
-
   }
 
   /**
    * Redirect to the alert page with appropriate parameters.
    * @param params - Alert page parameters
-   * @param params.type - Type of alert (block or limit)
-   * @param params.currentUrl - URL that triggered the alert
-   * @param params.ruleTitle - Title of the rule that was triggered
-   * @param params.allowedAt - Optional timestamp when access will be allowed again
    */
-  private redirectToAlertPage({ type, currentUrl, ruleTitle, allowedAt }: { type: string; currentUrl: string; ruleTitle: string; allowedAt?: number }): void {
-    let alertUrl = browser.runtime.getURL('html/alert.html') + `?type=${encodeURIComponent(type)}&currentUrl=${encodeURIComponent(currentUrl)}&ruleTitle=${encodeURIComponent(ruleTitle)}`;
-    if (allowedAt) {
-      alertUrl += `&allowedAt=${encodeURIComponent(allowedAt)}`;
-    }
-    window.location.href = alertUrl;
+  private redirectToAlertPage(params: AlertPageParams): void {
+    window.location.href = browser.runtime.getURL(buildAlertPath(params));
   }
 
 }
@@ -0,0 +1,93 @@
+/**
+ * Settings Service
+ *
+ * Loads and saves the settings managed from the popup and options page, filling in
+ * defaults for settings added after the user's settings were first saved.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { PopupSettings } from '../types/Popup';
+import { OverrideFriction } from '../types/RuleOverride';
+import { HalalCategory } from '../types/HalalMode';
+
+/** Most warnings that can be set for Limit rules */
+export const MAX_LIMIT_WARNINGS = 5;
+
+/** Largest number of remaining minutes a limit warning can be set at */
+export const MAX_LIMIT_WARNING_MINUTES = 120;
+
+/** Longest grace period after a Limit rule's budget runs out, in minutes */
+export const MAX_LIMIT_GRACE_MINUTES = 15;
+
+/** Settings used for new installations and for missing values */
+export const DEFAULT_POPUP_SETTINGS: PopupSettings = {
+  hideYoutubeShorts: true,
+  hideYoutubeHomeFeed: false,
+  hideYoutubeSidebar: false,
+  hideYoutubeEndScreen: false,
+  disableYoutubeAutoplay: false,
+  elementHidingPacks: [],
+  halalMode: false,
+  halalCategories: [HalalCategory.Gambling, HalalCategory.Adult, HalalCategory.Alcohol],
+  halalSafeSearch: true,
+  halalBlurImages: true,
+  allowlistMode: false,
+  overrideFriction: OverrideFriction.Disabled,
+  overrideMinutes: 10,
+  limitWarningMinutes: [5, 1],
+  limitWarningToast: true,
+  limitWarningNotification: false,
+  limitGraceMinutes: 0
+};
+
+/**
+ * Singleton service for reading and writing popup settings.
+ */
+export class SettingsService {
+  /** Singleton instance */
+  private static instance: SettingsService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the settings service.
+   * @returns The SettingsService instance
+   */
+  public static getInstance(): SettingsService {
+    if (!SettingsService.instance) {
+      SettingsService.instance = new SettingsService();
+    }
+    return SettingsService.instance;
+  }
+
+  /**
+   * Load the popup settings, merged over the defaults.
+   * @returns Promise that resolves to the current settings
+   */
+  public async loadSettings(): Promise<PopupSettings> {
+    try {
+      const result = await browser.storage.sync.get(STORAGE_KEYS.POPUP_SETTINGS);
+      return {
+        ...DEFAULT_POPUP_SETTINGS,
+        ...(result[STORAGE_KEYS.POPUP_SETTINGS] as PopupSettings || {})
+      };
+    } catch (error) {
+      console.error('Error loading popup settings:', error);
+      return { ...DEFAULT_POPUP_SETTINGS };
+    }
+  }
+
+  /**
+   * Save the popup settings.
+   * @param settings - The settings to save
+   * @returns Promise that resolves when the settings are saved
+   */
+  public async saveSettings(settings: PopupSettings): Promise<void> {
+    try {
+      await browser.storage.sync.set({ [STORAGE_KEYS.POPUP_SETTINGS]: settings });
+    } catch (error) {
+      console.error('Error saving popup settings:', error);
+    }
+  }
+}
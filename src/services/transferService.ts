@@ -0,0 +1,394 @@
+/**
+ * Rule Transfer Service
+ *
+ * Exports rules and settings as a versioned JSON document and validates
+ * documents before they are imported. Only rule configuration is exported;
+ * IDs and runtime state (usage counters, overrides, history) stay local.
+ */
+
+import { RulesService } from './rulesService';
+import { DEFAULT_POPUP_SETTINGS, MAX_LIMIT_GRACE_MINUTES, MAX_LIMIT_WARNING_MINUTES, MAX_LIMIT_WARNINGS, SettingsService } from './settingsService';
+import { ExportedRule, RuleExportDocument, RuleImportMode, RuleImportResult } from '../types/RuleTransfer';
+import { SiteRule, SiteRuleAction, SiteRuleActionType, SiteRuleMatchType, SiteRuleSchedule } from '../types/SiteRule';
+import { PopupSettings } from '../types/Popup';
+import { OverrideFriction } from '../types/RuleOverride';
+import { HalalCategory } from '../types/HalalMode';
+import { ELEMENT_HIDING_PACKS } from '../config/elementHidingPacks';
+import { isValidTimeZone } from '../utils/scheduleMatcher';
+import { isStructuredMatchType, toStructuredRegex } from '../utils/urlPattern';
+import { getRedirectTargetError } from '../utils/redirectTarget';
+
+/** Current version of the export document layout */
+export const RULE_EXPORT_VERSION = 1;
+
+/** Minutes in a day, the upper bound of schedule times */
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Singleton service for exporting and importing rules and settings.
+ */
+export class TransferService {
+  /** Singleton instance */
+  private static instance: TransferService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the rule transfer service.
+   * @returns The TransferService instance
+   */
+  public static getInstance(): TransferService {
+    if (!TransferService.instance) {
+      TransferService.instance = new TransferService();
+    }
+    return TransferService.instance;
+  }
+
+  /**
+   * Build an export document from the stored rules and settings.
+   * @returns Promise that resolves to the export document
+   */
+  public async exportDocument(): Promise<RuleExportDocument> {
+    const rules = await RulesService.getInstance().loadRules();
+    const settings = await SettingsService.getInstance().loadSettings();
+
+    return {
+      format: 'keep-me-focus',
+      version: RULE_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      rules: rules.map(rule => this.toExportedRule(rule)),
+      settings
+    };
+  }
+
+  /**
+   * Parse and validate the text of an import file.
+   * @param text - Contents of the JSON file
+   * @returns The validated rules and settings, or the validation errors
+   */
+  public parseDocument(text: string): RuleImportResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      return { rules: [], errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    if (!this.isObject(data) || data.format !== 'keep-me-focus') {
+      return { rules: [], errors: ['The file is not a Keep Me Focus export'] };
+    }
+
+    if (typeof data.version !== 'number' || data.version < 1) {
+      return { rules: [], errors: ['The file has no valid version'] };
+    }
+
+    if (data.version > RULE_EXPORT_VERSION) {
+      return { rules: [], errors: [`The file was created by a newer version of Keep Me Focus (format version ${data.version})`] };
+    }
+
+    if (!Array.isArray(data.rules)) {
+      return { rules: [], errors: ['The file contains no rule list'] };
+    }
+
+    const errors: string[] = [];
+    const rules: ExportedRule[] = [];
+
+    data.rules.forEach((value, index) => {
+      const rule = this.validateRule(value, `Rule ${index + 1}`, errors);
+      if (rule) rules.push(rule);
+    });
+
+    const settings = data.settings === undefined ? undefined : this.validateSettings(data.settings, errors);
+
+    return { rules, settings, errors };
+  }
+
+  /**
+   * Import validated rules and, optionally, settings.
+   * @param result - A validation result without errors
+   * @param mode - Whether to merge with or replace the existing rules
+   * @param includeSettings - Whether to overwrite the settings as well
+   * @returns Promise that resolves to the imported rules with their new IDs
+   * @throws CommitmentLockedError if the import loosens the rules during a commitment
+   */
+  public async importDocument(result: RuleImportResult, mode: RuleImportMode, includeSettings: boolean): Promise<SiteRule[]> {
+    if (result.errors.length > 0) {
+      throw new Error('Cannot import a document with validation errors');
+    }
+
+    const imported = await RulesService.getInstance().importRules(result.rules, mode === RuleImportMode.Replace);
+
+    if (includeSettings && result.settings) {
+      await SettingsService.getInstance().saveSettings(result.settings);
+    }
+
+    return imported;
+  }
+
+  /**
+   * Convert a stored rule into its exported shape.
+   * Fields are copied explicitly so that IDs and any runtime state are left out.
+   * @param rule - The stored rule
+   * @returns The exported rule
+   */
+  private toExportedRule(rule: SiteRule): ExportedRule {
+    return {
+      title: rule.title,
+      pattern: rule.pattern,
+      matchType: rule.matchType,
+      action: this.toExportedAction(rule.action),
+      enabled: rule.enabled,
+      ...(rule.schedule ? { schedule: { ...rule.schedule } } : {})
+    };
+  }
+
+  /**
+   * Copy the configuration fields of a rule action.
+   * @param action - The stored action
+   * @returns The action without runtime fields
+   */
+  private toExportedAction(action: SiteRuleAction): SiteRuleAction {
+    if (action.type === SiteRuleActionType.Limit) {
+      return {
+        type: action.type,
+        allowedMinutes: action.allowedMinutes,
+        resetAfterMinutes: action.resetAfterMinutes,
+        delayMinutes: action.delayMinutes
+      };
+    }
+    if (action.type === SiteRuleActionType.Redirect) {
+      return { type: action.type, target: action.target };
+    }
+    return { type: action.type };
+  }
+
+  /**
+   * Validate a single imported rule.
+   * @param value - Rule from the document
+   * @param label - Label used in error messages
+   * @param errors - List collecting validation errors
+   * @returns The validated rule, or null if it is invalid
+   */
+  private validateRule(value: unknown, label: string, errors: string[]): ExportedRule | null {
+    if (!this.isObject(value)) {
+      errors.push(`${label}: not an object`);
+      return null;
+    }
+
+    const errorCount = errors.length;
+    if (typeof value.title === 'string' && value.title.trim()) {
+      label = `${label} ("${value.title.trim()}")`;
+    } else {
+      errors.push(`${label}: title is missing`);
+    }
+
+    if (typeof value.pattern !== 'string' || !value.pattern.trim()) {
+      errors.push(`${label}: pattern is missing`);
+    }
+
+    const matchType = value.matchType as SiteRuleMatchType;
+    if (!Object.values(SiteRuleMatchType).includes(matchType)) {
+      errors.push(`${label}: unknown match type "${String(value.matchType)}"`);
+    } else if ((matchType === SiteRuleMatchType.Regex || matchType === SiteRuleMatchType.NotRegex) && typeof value.pattern === 'string') {
+      try {
+        new RegExp(value.pattern);
+      } catch (error) {
+        errors.push(`${label}: invalid regular expression (${(error as Error).message})`);
+      }
+    } else if (isStructuredMatchType(matchType) && typeof value.pattern === 'string' && !toStructuredRegex(matchType, value.pattern)) {
+      errors.push(`${label}: pattern is not valid for match type "${matchType}"`);
+    }
+
+    if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+      errors.push(`${label}: "enabled" must be true or false`);
+    }
+
+    const action = this.validateAction(value.action, label, errors);
+    if (action?.type === SiteRuleActionType.Redirect && errors.length === errorCount) {
+      const targetError = getRedirectTargetError(action.target, matchType, (value.pattern as string).trim());
+      if (targetError) errors.push(`${label}: invalid redirect target (${targetError})`);
+    }
+    const schedule = value.schedule === undefined ? undefined : this.validateSchedule(value.schedule, label, errors);
+
+    if (errors.length > errorCount || !action) return null;
+
+    return {
+      title: (value.title as string).trim(),
+      pattern: (value.pattern as string).trim(),
+      matchType,
+      action,
+      enabled: value.enabled !== false,
+      ...(schedule ? { schedule } : {})
+    };
+  }
+
+  /**
+   * Validate the action of an imported rule.
+   * @param value - Action from the document
+   * @param label - Label used in error messages
+   * @param errors - List collecting validation errors
+   * @returns The validated action, or null if it is invalid
+   */
+  private validateAction(value: unknown, label: string, errors: string[]): SiteRuleAction | null {
+    if (!this.isObject(value)) {
+      errors.push(`${label}: action is missing`);
+      return null;
+    }
+
+    switch (value.type) {
+      case SiteRuleActionType.Allow:
+      case SiteRuleActionType.Block:
+        return { type: value.type };
+      case SiteRuleActionType.Limit: {
+        const fields = ['allowedMinutes', 'resetAfterMinutes', 'delayMinutes'] as const;
+        const invalid = fields.filter(field => typeof value[field] !== 'number' || !Number.isFinite(value[field]) || (value[field] as number) < 0);
+        if (invalid.length > 0) {
+          errors.push(`${label}: limit action needs non-negative numbers for ${invalid.join(', ')}`);
+          return null;
+        }
+        return {
+          type: SiteRuleActionType.Limit,
+          allowedMinutes: value.allowedMinutes as number,
+          resetAfterMinutes: value.resetAfterMinutes as number,
+          delayMinutes: value.delayMinutes as number
+        };
+      }
+      case SiteRuleActionType.Redirect:
+        if (typeof value.target !== 'string' || !value.target.trim()) {
+          errors.push(`${label}: redirect action needs a target URL`);
+          return null;
+        }
+        return { type: SiteRuleActionType.Redirect, target: value.target.trim() };
+      default:
+        errors.push(`${label}: unknown action type "${String(value.type)}"`);
+        return null;
+    }
+  }
+
+  /**
+   * Validate the schedule of an imported rule.
+   * @param value - Schedule from the document
+   * @param label - Label used in error messages
+   * @param errors - List collecting validation errors
+   * @returns The validated schedule, or null if it is invalid
+   */
+  private validateSchedule(value: unknown, label: string, errors: string[]): SiteRuleSchedule | null {
+    if (!this.isObject(value)) {
+      errors.push(`${label}: schedule is not an object`);
+      return null;
+    }
+
+    const weekdays = value.weekdays;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || !weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      errors.push(`${label}: schedule weekdays must be a non-empty list of numbers from 0 (Sunday) to 6 (Saturday)`);
+      return null;
+    }
+
+    const windows = value.windows;
+    const isTime = (time: unknown) => Number.isInteger(time) && (time as number) >= 0 && (time as number) < MINUTES_PER_DAY;
+    if (!Array.isArray(windows) || !windows.every(timeWindow => this.isObject(timeWindow) && isTime(timeWindow.start) && isTime(timeWindow.end))) {
+      errors.push(`${label}: schedule windows must be a list of { start, end } in minutes since midnight`);
+      return null;
+    }
+
+    if (value.timeZone !== undefined && (typeof value.timeZone !== 'string' || !isValidTimeZone(value.timeZone))) {
+      errors.push(`${label}: unknown schedule time zone "${String(value.timeZone)}"`);
+      return null;
+    }
+
+    return {
+      weekdays: weekdays as number[],
+      windows: windows.map(timeWindow => ({ start: timeWindow.start as number, end: timeWindow.end as number })),
+      timeZone: value.timeZone as string | undefined
+    };
+  }
+
+  /**
+   * Validate imported settings. Missing settings fall back to the defaults.
+   * @param value - Settings from the document
+   * @param errors - List collecting validation errors
+   * @returns The validated settings, or undefined if they are invalid
+   */
+  private validateSettings(value: unknown, errors: string[]): PopupSettings | undefined {
+    if (!this.isObject(value)) {
+      errors.push('Settings: not an object');
+      return undefined;
+    }
+
+    const settings: PopupSettings = { ...DEFAULT_POPUP_SETTINGS };
+    const errorCount = errors.length;
+
+    (['hideYoutubeShorts', 'hideYoutubeHomeFeed', 'hideYoutubeSidebar', 'hideYoutubeEndScreen', 'disableYoutubeAutoplay', 'halalMode', 'halalSafeSearch', 'halalBlurImages', 'allowlistMode', 'limitWarningToast', 'limitWarningNotification'] as const).forEach(key => {
+      if (value[key] === undefined) return;
+      if (typeof value[key] !== 'boolean') {
+        errors.push(`Settings: "${key}" must be true or false`);
+      } else {
+        settings[key] = value[key] as boolean;
+      }
+    });
+
+    if (value.elementHidingPacks !== undefined) {
+      const packIds = ELEMENT_HIDING_PACKS.map(pack => pack.id);
+      const packs = value.elementHidingPacks;
+      if (!Array.isArray(packs) || packs.some(pack => !packIds.includes(pack))) {
+        errors.push(`Settings: "elementHidingPacks" must be a list of ${packIds.join(', ')}`);
+      } else {
+        settings.elementHidingPacks = [...new Set(packs as string[])];
+      }
+    }
+
+    if (value.halalCategories !== undefined) {
+      const categories = value.halalCategories;
+      if (!Array.isArray(categories) || categories.some(category => !Object.values(HalalCategory).includes(category))) {
+        errors.push(`Settings: "halalCategories" must be a list of ${Object.values(HalalCategory).join(', ')}`);
+      } else {
+        settings.halalCategories = [...new Set(categories as HalalCategory[])];
+      }
+    }
+
+    if (value.overrideFriction !== undefined) {
+      if (!Object.values(OverrideFriction).includes(value.overrideFriction as OverrideFriction)) {
+        errors.push(`Settings: unknown override friction "${String(value.overrideFriction)}"`);
+      } else {
+        settings.overrideFriction = value.overrideFriction as OverrideFriction;
+      }
+    }
+
+    if (value.overrideMinutes !== undefined) {
+      if (!Number.isInteger(value.overrideMinutes) || (value.overrideMinutes as number) < 1 || (value.overrideMinutes as number) > 240) {
+        errors.push('Settings: "overrideMinutes" must be a whole number from 1 to 240');
+      } else {
+        settings.overrideMinutes = value.overrideMinutes as number;
+      }
+    }
+
+    if (value.limitWarningMinutes !== undefined) {
+      const minutes = value.limitWarningMinutes;
+      if (!Array.isArray(minutes) || minutes.length > MAX_LIMIT_WARNINGS
+        || minutes.some(item => !Number.isInteger(item) || item < 1 || item > MAX_LIMIT_WARNING_MINUTES)) {
+        errors.push(`Settings: "limitWarningMinutes" must be a list of up to ${MAX_LIMIT_WARNINGS} whole numbers from 1 to ${MAX_LIMIT_WARNING_MINUTES}`);
+      } else {
+        settings.limitWarningMinutes = minutes as number[];
+      }
+    }
+
+    if (value.limitGraceMinutes !== undefined) {
+      if (!Number.isInteger(value.limitGraceMinutes) || (value.limitGraceMinutes as number) < 0 || (value.limitGraceMinutes as number) > MAX_LIMIT_GRACE_MINUTES) {
+        errors.push(`Settings: "limitGraceMinutes" must be a whole number from 0 to ${MAX_LIMIT_GRACE_MINUTES}`);
+      } else {
+        settings.limitGraceMinutes = value.limitGraceMinutes as number;
+      }
+    }
+
+    return errors.length > errorCount ? undefined : settings;
+  }
+
+  /**
+   * Check whether a value is a plain object.
+   * @param value - The value to check
+   * @returns True for non-null, non-array objects
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -10,6 +10,9 @@ import { SiteRule, SiteRuleActionType } from '../types/SiteRule';
 import Sortable from 'sortablejs';
 import assertNever from '../utils/assertNever';
 import DOMPurify from 'dompurify';
+import { formatSchedule, formatTimeWindows, isScheduleActive } from '../utils/scheduleMatcher';
+import { getPatternError } from '../utils/ruleMatcher';
+import { PatternValidation } from './formService';
 
 /**
  * Service class for managing UI operations and interactions in the options page.
@@ -152,6 +155,26 @@ export class UIService {
       })()
       : rule.action.type.charAt(0).toUpperCase() + rule.action.type.slice(1);
 
+    // Describe the schedule and whether the rule is currently inside it
+    const scheduleBadge = rule.schedule
+      ? (() => {
+        const activeNow = isScheduleActive(rule.schedule);
+        return `
+              <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${activeNow ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-500'} flex-shrink-0" title="${activeNow ? 'Active now' : 'Inactive now'}">
+                ${this.escapeHtml(formatSchedule(rule.schedule))} · ${activeNow ? 'active now' : 'inactive now'}
+              </span>`;
+      })()
+      : '';
+
+    // Invalid patterns never match, so point them out on the rule
+    const patternError = getPatternError(rule.matchType, rule.pattern);
+    const errorBadge = patternError
+      ? `
+              <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 flex-shrink-0" title="${this.escapeHtml(patternError)}">
+                Invalid pattern
+              </span>`
+      : '';
+
     li.innerHTML = DOMPurify.sanitize(`
       <div class="flex items-start justify-between gap-4">
         <div class="flex items-start gap-3 min-w-0 flex-1">
@@ -166,11 +189,15 @@ export class UIService {
               </span>
               <span class="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 flex-shrink-0">
                 ${rule.matchType}
-              </span>
+              </span>${scheduleBadge}${errorBadge}
             </div>
             <p class="text-sm text-gray-600 mt-1 break-all">
               <code class="bg-gray-100 px-1.5 py-0.5 rounded text-xs">${this.escapeHtml(rule.pattern)}</code>
-            </p>
+            </p>${rule.action.type === SiteRuleActionType.Redirect ? `
+            <p class="text-sm text-gray-600 mt-1 break-all">
+              → <code class="bg-blue-50 px-1.5 py-0.5 rounded text-xs">${this.escapeHtml(rule.action.target)}</code>
+            </p>` : ''}${patternError ? `
+            <p class="text-xs text-red-600 mt-1">${this.escapeHtml(patternError)}. The rule is skipped until the pattern is fixed.</p>` : ''}
           </div>
         </div>
         <div class="flex items-center gap-2 flex-shrink-0">
@@ -255,7 +282,7 @@ export class UIService {
 
   /**
    * Get CSS classes for action badges based on rule action type.
-   * @param actionType - The type of action (allow, block, limit)
+   * @param actionType - The type of action (allow, block, limit, redirect)
    * @returns CSS class string for styling the badge
    */
   private getActionBadgeClass(actionType: SiteRuleActionType): string {
@@ -266,6 +293,8 @@ export class UIService {
         return 'bg-red-100 text-red-800';
       case SiteRuleActionType.Limit:
         return 'bg-yellow-100 text-yellow-800';
+      case SiteRuleActionType.Redirect:
+        return 'bg-blue-100 text-blue-800';
       default:
         return assertNever(actionType);
     }
@@ -283,22 +312,94 @@ export class UIService {
   }
 
   /**
-   * Show or hide limit options based on selected action type.
+   * Show or hide the limit and redirect options based on selected action type.
    * Called when the action select dropdown changes.
    */
-  public toggleLimitOptions(): void {
+  public toggleActionOptions(): void {
     const actionSelect = document.getElementById('rule-action') as HTMLSelectElement;
     const limitOptions = document.getElementById('limit-options') as HTMLElement;
+    const redirectOptions = document.getElementById('redirect-options') as HTMLElement;
+
+    if (!actionSelect || !limitOptions || !redirectOptions) return;
 
-    if (!actionSelect || !limitOptions) return;
+    limitOptions.classList.toggle('hidden', actionSelect.value !== SiteRuleActionType.Limit);
+    redirectOptions.classList.toggle('hidden', actionSelect.value !== SiteRuleActionType.Redirect);
+  }
+
+  /**
+   * Show or hide schedule options based on the schedule checkbox.
+   * Called when the schedule checkbox changes.
+   */
+  public toggleScheduleOptions(): void {
+    const scheduleCheckbox = document.getElementById('rule-schedule-enabled') as HTMLInputElement;
+    const scheduleOptions = document.getElementById('schedule-options') as HTMLElement;
 
-    if (actionSelect.value === 'limit') {
-      limitOptions.classList.remove('hidden');
+    if (!scheduleCheckbox || !scheduleOptions) return;
+
+    if (scheduleCheckbox.checked) {
+      scheduleOptions.classList.remove('hidden');
     } else {
-      limitOptions.classList.add('hidden');
+      scheduleOptions.classList.add('hidden');
     }
   }
 
+  /**
+   * Fill the schedule section of the form.
+   * @param schedule - The schedule to show, or undefined to reset the section
+   */
+  public populateScheduleForm(schedule?: SiteRule['schedule']): void {
+    (document.getElementById('rule-schedule-enabled') as HTMLInputElement).checked = !!schedule;
+    (document.getElementById('rule-schedule-windows') as HTMLInputElement).value = schedule ? formatTimeWindows(schedule.windows) : '';
+    (document.getElementById('rule-schedule-timezone') as HTMLInputElement).value = schedule?.timeZone || '';
+
+    document.querySelectorAll<HTMLInputElement>('input[name="rule-schedule-weekday"]').forEach(input => {
+      input.checked = schedule ? schedule.weekdays.includes(parseInt(input.value, 10)) : false;
+    });
+
+    this.toggleScheduleOptions();
+  }
+
+  /**
+   * Show the validation result of the pattern field and the URLs it would match.
+   * @param validation - Validation result of the current pattern
+   * @param matchedUrls - Candidate URLs that match the pattern
+   * @param candidateCount - Number of candidate URLs that were checked
+   */
+  public renderPatternFeedback(validation: PatternValidation | null, matchedUrls: string[], candidateCount: number): void {
+    const errorElement = document.getElementById('rule-pattern-error');
+    const warningList = document.getElementById('rule-pattern-warnings');
+    const preview = document.getElementById('rule-pattern-preview');
+    const previewSummary = document.getElementById('rule-pattern-preview-summary');
+    const previewList = document.getElementById('rule-pattern-preview-list');
+    if (!errorElement || !warningList || !preview || !previewSummary || !previewList) return;
+
+    errorElement.textContent = validation?.error || '';
+    errorElement.classList.toggle('hidden', !validation?.error);
+
+    warningList.replaceChildren(...(validation?.warnings || []).map(warning => {
+      const item = document.createElement('li');
+      item.textContent = `⚠ ${warning}`;
+      return item;
+    }));
+    warningList.classList.toggle('hidden', !validation || validation.warnings.length === 0);
+
+    // Only valid patterns get a preview
+    if (!validation || validation.error || candidateCount === 0) {
+      preview.classList.add('hidden');
+      return;
+    }
+
+    previewSummary.textContent = `Matches ${matchedUrls.length} of ${candidateCount} open tabs and recently visited sites`;
+    previewList.replaceChildren(...matchedUrls.map(url => {
+      const item = document.createElement('li');
+      item.className = 'truncate';
+      item.textContent = url;
+      item.title = url;
+      return item;
+    }));
+    preview.classList.remove('hidden');
+  }
+
   /**
    * Clear all form inputs and reset to default values.
    */
@@ -310,10 +411,11 @@ export class UIService {
     (document.getElementById('rule-allowed-minutes') as HTMLInputElement).value = '';
     (document.getElementById('rule-reset-after-minutes') as HTMLInputElement).value = '';
     (document.getElementById('rule-delay-minutes') as HTMLInputElement).value = '';
+    (document.getElementById('rule-redirect-target') as HTMLInputElement).value = '';
+    this.populateScheduleForm(undefined);
 
-    // Hide limit options
-    const limitOptions = document.getElementById('limit-options') as HTMLElement;
-    limitOptions?.classList.add('hidden');
+    // Hide limit and redirect options
+    this.toggleActionOptions();
   }
 
   /**
@@ -331,7 +433,9 @@ export class UIService {
       (document.getElementById('rule-reset-after-minutes') as HTMLInputElement).value = rule.action.resetAfterMinutes.toString();
       (document.getElementById('rule-delay-minutes') as HTMLInputElement).value = rule.action.delayMinutes.toString();
     }
+    (document.getElementById('rule-redirect-target') as HTMLInputElement).value = rule.action.type === SiteRuleActionType.Redirect ? rule.action.target : '';
 
-    this.toggleLimitOptions();
+    this.populateScheduleForm(rule.schedule);
+    this.toggleActionOptions();
   }
 }
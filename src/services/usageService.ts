@@ -0,0 +1,130 @@
+/**
+ * Rule Usage Storage Service
+ *
+ * Stores runtime usage counters of Limit rules in local storage, separately
+ * from the synced rule configuration. Also migrates counters out of the
+ * legacy rule shape, where they were embedded in the Limit action.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { RuleUsage, RuleUsageRecord } from '../types/RuleUsage';
+import { SiteRule, SiteRuleActionType } from '../types/SiteRule';
+
+/**
+ * Singleton service for reading and writing Limit rule usage counters.
+ */
+export class UsageService {
+  /** Singleton instance */
+  private static instance: UsageService;
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the usage storage service.
+   * @returns The UsageService instance
+   */
+  public static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  /**
+   * Load the usage counters of all rules.
+   * @returns Promise that resolves to the usage record keyed by rule ID
+   */
+  public async loadUsage(): Promise<RuleUsageRecord> {
+    try {
+      const result = await browser.storage.local.get(STORAGE_KEYS.RULE_USAGE);
+      return (result[STORAGE_KEYS.RULE_USAGE] as RuleUsageRecord) || {};
+    } catch (error) {
+      console.error('Error loading rule usage:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Get the usage counters of a single rule.
+   * Rules that have never been used start a fresh period now.
+   * @param ruleId - ID of the rule
+   * @returns Promise that resolves to the rule's usage
+   */
+  public async getUsage(ruleId: string): Promise<RuleUsage> {
+    const usage = await this.loadUsage();
+    return usage[ruleId] || this.createUsage();
+  }
+
+  /**
+   * Store the usage counters of a single rule.
+   * @param ruleId - ID of the rule
+   * @param usage - New usage counters
+   * @returns Promise that resolves when the usage is saved
+   */
+  public async setUsage(ruleId: string, usage: RuleUsage): Promise<void> {
+    try {
+      const record = await this.loadUsage();
+      record[ruleId] = usage;
+      await browser.storage.local.set({ [STORAGE_KEYS.RULE_USAGE]: record });
+    } catch (error) {
+      console.error('Error saving rule usage:', error);
+    }
+  }
+
+  /**
+   * Remove counters of rules that no longer exist.
+   * @param ruleIds - IDs of the rules that still exist
+   * @returns Promise that resolves when stale counters are removed
+   */
+  public async pruneUsage(ruleIds: string[]): Promise<void> {
+    const record = await this.loadUsage();
+    const staleIds = Object.keys(record).filter(ruleId => !ruleIds.includes(ruleId));
+    if (staleIds.length === 0) return;
+
+    staleIds.forEach(ruleId => delete record[ruleId]);
+    await browser.storage.local.set({ [STORAGE_KEYS.RULE_USAGE]: record });
+  }
+
+  /**
+   * Create counters for a rule that has no usage yet.
+   * @returns Fresh usage counters
+   */
+  public createUsage(): RuleUsage {
+    return { usedMinutes: 0, lastResetAt: Date.now(), lastUsedAt: 0 };
+  }
+
+  /**
+   * One-time migration of usage counters embedded in Limit actions.
+   * Moves the counters into the usage record and strips them from the synced rules.
+   * Safe to run repeatedly: rules without embedded counters are left untouched.
+   * @returns Promise that resolves when the migration is complete
+   */
+  public async migrateFromRules(): Promise<void> {
+    const result = await browser.storage.sync.get(STORAGE_KEYS.SITE_RULES);
+    const rules = (result[STORAGE_KEYS.SITE_RULES] as SiteRule[]) || [];
+    const record = await this.loadUsage();
+    let migrated = false;
+
+    const cleanedRules = rules.map((rule): SiteRule => {
+      if (rule.action.type !== SiteRuleActionType.Limit || !('usedMinutes' in rule.action)) {
+        return rule;
+      }
+
+      const { usedMinutes, lastResetAt, lastUsedAt, ...action } = rule.action as typeof rule.action & Partial<RuleUsage>;
+      record[rule.id] = {
+        usedMinutes: usedMinutes || 0,
+        lastResetAt: lastResetAt || Date.now(),
+        lastUsedAt: lastUsedAt || 0
+      };
+      migrated = true;
+
+      return { ...rule, action };
+    });
+
+    if (!migrated) return;
+
+    await browser.storage.local.set({ [STORAGE_KEYS.RULE_USAGE]: record });
+    await browser.storage.sync.set({ [STORAGE_KEYS.SITE_RULES]: cleanedRules });
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Usage Tracking Service
+ *
+ * Central time accounting, run by the background script. Time is credited to
+ * the usage counters of Limit rules and to the daily usage history.
+ * Only the active tab of the focused browser window counts, and only while
+ * the user is not idle. Each Limit rule has a single authoritative counter,
+ * so several open tabs of the same site never count time twice.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+import { SiteRule, SiteRuleActionType } from '../types/SiteRule';
+import { RulesService } from './rulesService';
+import { UsageService } from './usageService';
+import { HistoryService } from './historyService';
+import { OverrideService } from './overrideService';
+import { LimitWarningService } from './limitWarningService';
+import { buildAlertPath } from '../utils/alertUrl';
+import { getLimitStatus, isLimitResetDue, LimitStatus } from '../utils/limitStatus';
+import { getUptimeSeconds } from '../utils/uptime';
+import { getDomain } from '../utils/domain';
+
+/** Name of the alarm that periodically flushes usage of the focused tab */
+const USAGE_TICK_ALARM = 'keepMeFocus_usageTick';
+
+/** Seconds of inactivity after which the user is considered idle */
+const IDLE_DETECTION_SECONDS = 60;
+
+/**
+ * Longest interval credited between two ticks, in milliseconds.
+ * Longer gaps mean the background script was suspended and are not counted.
+ */
+const MAX_TICK_GAP_MS = 90 * 1000;
+
+/**
+ * Focused tab whose time is currently being counted.
+ */
+interface CountedTab {
+  /** ID of the focused tab */
+  tabId: number;
+
+  /** URL of the focused tab */
+  url: string;
+
+  /** Domain of the focused tab */
+  domain: string;
+
+  /** ID of the rule matching the tab (if any) */
+  ruleId?: string;
+}
+
+/**
+ * Tracking state kept in local storage, so that a restarted background script
+ * credits the time since the last tick before it was shut down.
+ */
+interface TrackerState {
+  /** Tab that was counted since the last tick (null if nothing is counted) */
+  counted: CountedTab | null;
+
+  /** Timestamp of the last tick */
+  lastTickAt: number;
+}
+
+/**
+ * Singleton service that owns usage accounting.
+ */
+export class UsageTrackerService {
+  /** Singleton instance */
+  private static instance: UsageTrackerService;
+
+  /** Tab that was counted since the last tick (null if nothing is counted) */
+  private counted: CountedTab | null = null;
+
+  /** Timestamp of the last tick */
+  private lastTickAt: number = Date.now();
+
+  /** Whether the tracking state was restored from storage since the background script started */
+  private stateRestored: boolean = false;
+
+  /** Whether the user is currently active (not idle or locked) */
+  private userActive: boolean = true;
+
+  /** Promise of the tick currently in progress, used to serialize ticks */
+  private tickInProgress: Promise<void> = Promise.resolve();
+
+  private constructor() { }
+
+  /**
+   * Get the singleton instance of the usage tracking service.
+   * @returns The UsageTrackerService instance
+   */
+  public static getInstance(): UsageTrackerService {
+    if (!UsageTrackerService.instance) {
+      UsageTrackerService.instance = new UsageTrackerService();
+    }
+    return UsageTrackerService.instance;
+  }
+
+  /**
+   * Start tracking: listen to tab, window and idle events and schedule periodic ticks.
+   * Must be called synchronously when the background script loads so that
+   * events waking the background script are not missed.
+   */
+  public run(): void {
+    browser.tabs.onActivated.addListener(() => this.tick());
+    browser.tabs.onUpdated.addListener((_tabId, changeInfo) => {
+      if (changeInfo.url) this.tick();
+    });
+    browser.windows.onFocusChanged.addListener(() => this.tick());
+
+    browser.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+    browser.idle.onStateChanged.addListener((state) => {
+      this.userActive = state === 'active';
+      this.tick();
+    });
+
+    browser.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === USAGE_TICK_ALARM) this.tick();
+    });
+    browser.alarms.create(USAGE_TICK_ALARM, { periodInMinutes: 0.5 });
+
+    browser.idle.queryState(IDLE_DETECTION_SECONDS).then(state => {
+      this.userActive = state === 'active';
+    });
+  }
+
+  /**
+   * Check whether a Limit rule currently allows access.
+   * Called by content scripts on navigation instead of counting time themselves.
+   * Pages that are already open stay usable during the grace period, as they do on ticks.
+   * @param ruleId - ID of the Limit rule
+   * @param pageOpen - Whether the page was open before the check, e.g. for in-page navigation
+   * @returns Promise that resolves to the limit status
+   */
+  public async checkLimit(ruleId: string, pageOpen: boolean = false): Promise<LimitStatus> {
+    // Flush pending usage first so the answer reflects the latest counter
+    await this.tick();
+
+    const rule = RulesService.getInstance().getRuleById(ruleId);
+    if (!rule || rule.action.type !== SiteRuleActionType.Limit) {
+      return { allowed: true };
+    }
+
+    const usage = await UsageService.getInstance().getUsage(ruleId);
+    const now = Date.now();
+    const uptimeSec = await getUptimeSeconds();
+    const status = getLimitStatus(rule.action, usage, now, uptimeSec);
+
+    if (!status.allowed && pageOpen && await LimitWarningService.getInstance().isInGracePeriod(rule.action, usage, now, uptimeSec)) {
+      return { allowed: true };
+    }
+    return status;
+  }
+
+  /**
+   * Credit elapsed time to the previously counted rule and re-evaluate the focused tab.
+   * Ticks are serialized so that concurrent events never double count.
+   * @returns Promise that resolves when the tick is complete
+   */
+  public tick(): Promise<void> {
+    this.tickInProgress = this.tickInProgress
+      .then(() => this.applyTick())
+      .catch(error => console.error('Error tracking usage:', error));
+    return this.tickInProgress;
+  }
+
+  /**
+   * Perform a single accounting pass.
+   */
+  private async applyTick(): Promise<void> {
+    // Rules are reloaded by the background script whenever they change
+    const rulesService = RulesService.getInstance();
+    await rulesService.ensureRulesLoaded();
+    await this.restoreState();
+
+    const now = Date.now();
+    const elapsedMs = now - this.lastTickAt;
+    this.lastTickAt = now;
+
+    // Credit the time since the last tick to the tab that was being counted
+    if (this.counted && elapsedMs <= MAX_TICK_GAP_MS) {
+      await HistoryService.getInstance().recordTime(this.counted.domain, this.counted.ruleId, elapsedMs / 1000);
+      if (this.counted.ruleId) {
+        await this.addUsage(this.counted, this.counted.ruleId, elapsedMs, now);
+      }
+    }
+
+    this.counted = await this.findCountedTab();
+    await this.saveState();
+    if (!this.counted?.ruleId) return;
+
+    // Enforce the limit on the focused tab once its budget runs out
+    const rule = rulesService.getRuleById(this.counted.ruleId);
+    if (rule && rule.action.type === SiteRuleActionType.Limit && !(await OverrideService.getInstance().isRuleExempt(rule.id))) {
+      const usage = await UsageService.getInstance().getUsage(rule.id);
+      const uptimeSec = await getUptimeSeconds();
+      const { allowed, allowedAt } = getLimitStatus(rule.action, usage, now, uptimeSec);
+
+      // An open page stays usable during the grace period; pages opened now are blocked by the content script
+      if (!allowed && !(await LimitWarningService.getInstance().isInGracePeriod(rule.action, usage, now, uptimeSec))) {
+        await this.sendTabToAlertPage(this.counted, rule, allowedAt);
+        this.counted = null;
+        await this.saveState();
+      }
+    }
+  }
+
+  /**
+   * Restore the counted tab and the time of the last tick once after the background script starts.
+   * Gaps longer than MAX_TICK_GAP_MS are still left uncounted by the next tick.
+   */
+  private async restoreState(): Promise<void> {
+    if (this.stateRestored) return;
+    this.stateRestored = true;
+
+    const result = await browser.storage.local.get(STORAGE_KEYS.USAGE_TRACKER_STATE);
+    const state = result[STORAGE_KEYS.USAGE_TRACKER_STATE] as TrackerState | undefined;
+    if (state) {
+      this.counted = state.counted;
+      this.lastTickAt = state.lastTickAt;
+    }
+  }
+
+  /**
+   * Store the counted tab and the time of the last tick.
+   */
+  private async saveState(): Promise<void> {
+    const state: TrackerState = { counted: this.counted, lastTickAt: this.lastTickAt };
+    await browser.storage.local.set({ [STORAGE_KEYS.USAGE_TRACKER_STATE]: state });
+  }
+
+  /**
+   * Find the focused, visible web page and the rule matching it.
+   * @returns The counted tab, or null if nothing should be counted
+   */
+  private async findCountedTab(): Promise<CountedTab | null> {
+    if (!this.userActive) return null;
+
+    const focusedWindow = await browser.windows.getLastFocused();
+    if (!focusedWindow.focused || focusedWindow.state === 'minimized' || focusedWindow.id === undefined) return null;
+
+    const [tab] = await browser.tabs.query({ active: true, windowId: focusedWindow.id });
+    if (!tab?.id || !tab.url) return null;
+
+    const domain = getDomain(tab.url);
+    if (!domain) return null;
+
+    const rule = RulesService.getInstance().findMatchingRule(tab.url);
+    return { tabId: tab.id, url: tab.url, domain, ruleId: rule?.id };
+  }
+
+  /**
+   * Add elapsed time to a Limit rule's counter, resetting it first if its period has elapsed,
+   * and warn the counted tab when the budget is about to run out.
+   * @param counted - The tab the time is credited to
+   * @param ruleId - ID of the Limit rule
+   * @param elapsedMs - Time to add, in milliseconds
+   * @param now - Current timestamp
+   */
+  private async addUsage(counted: CountedTab, ruleId: string, elapsedMs: number, now: number): Promise<void> {
+    const rule = RulesService.getInstance().getRuleById(ruleId);
+    if (!rule || rule.action.type !== SiteRuleActionType.Limit) return;
+
+    const usageService = UsageService.getInstance();
+    const usage = await usageService.getUsage(ruleId);
+    const resetDue = isLimitResetDue(rule.action, usage, now);
+    const usedBefore = resetDue ? 0 : usage.usedMinutes;
+    const usedAfter = usedBefore + elapsedMs / 60000;
+
+    await usageService.setUsage(ruleId, {
+      usedMinutes: usedAfter,
+      lastResetAt: resetDue ? now : usage.lastResetAt,
+      lastUsedAt: now
+    });
+
+    await LimitWarningService.getInstance().checkWarnings(counted.tabId, rule, usedBefore, usedAfter);
+  }
+
+  /**
+   * Redirect a tab whose Limit rule has run out to the alert page.
+   * @param counted - The tab to redirect
+   * @param rule - The exhausted Limit rule
+   * @param allowedAt - Timestamp when access will be allowed again
+   */
+  private async sendTabToAlertPage(counted: CountedTab, rule: SiteRule, allowedAt?: number): Promise<void> {
+    const alertPath = buildAlertPath({ type: 'limit', currentUrl: counted.url, ruleId: rule.id, ruleTitle: rule.title, allowedAt });
+    await browser.tabs.update(counted.tabId, { url: browser.runtime.getURL(alertPath) });
+  }
+}
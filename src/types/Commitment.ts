@@ -0,0 +1,53 @@
+/**
+ * Commitment Type Definitions
+ *
+ * Types for the commitment lock, during which rules can be made stricter but
+ * not looser, either until a fixed time or until a cooling-off delay has passed
+ * after a change was requested.
+ */
+
+/**
+ * How a commitment ends or lets changes through.
+ */
+export enum CommitmentMode {
+  /** Rules cannot be loosened until a fixed time */
+  Until = 'until',
+
+  /** Loosening changes must be requested and wait for a delay */
+  CoolingOff = 'coolingOff',
+}
+
+/**
+ * Stored commitment (sync storage). No commitment is active while it is missing.
+ */
+export type Commitment = {
+  readonly mode: CommitmentMode.Until;
+
+  /** Timestamp until which rules cannot be loosened */
+  readonly lockedUntil: number;
+} | {
+  readonly mode: CommitmentMode.CoolingOff;
+
+  /** Minutes to wait after requesting a change before rules can be loosened */
+  readonly delayMinutes: number;
+
+  /** Timestamp of the last change request (null if none) */
+  readonly requestedAt: number | null;
+};
+
+/**
+ * Whether the commitment currently lets rules be loosened.
+ */
+export interface CommitmentStatus {
+  /** The active commitment (null if none) */
+  commitment: Commitment | null;
+
+  /** Whether rules can be loosened right now */
+  canLoosen: boolean;
+
+  /** When rules can be loosened next (only while they cannot) */
+  availableAt?: number;
+
+  /** When the window for a requested change closes (only while it is open) */
+  availableUntil?: number;
+}
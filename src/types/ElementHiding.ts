@@ -0,0 +1,69 @@
+/**
+ * Element Hiding Type Definitions
+ *
+ * Types for hiding distracting page elements: built-in packs of CSS selectors
+ * for popular sites and the user's own selectors.
+ */
+
+import { PopupSettings } from './Popup';
+
+/**
+ * Elements hidden by one CSS selector.
+ */
+export interface ElementHidingEntry {
+  /** CSS selector of the elements to hide */
+  selector: string;
+
+  /**
+   * Selectors of the ancestor to hide instead of the matched element, tried in order;
+   * the matched element's parent is hidden if none matches (undefined = hide the element itself).
+   * The stylesheet hides every ancestor matching one of them through :has()
+   */
+  containers?: string[];
+
+  /** What the entry hides */
+  description: string;
+
+  /** Click the matched element instead of hiding it, e.g. to switch a toggle off */
+  click?: boolean;
+}
+
+/**
+ * Built-in group of entries hiding one kind of distraction on a site.
+ */
+export interface ElementHidingPack {
+  /** Unique identifier of the pack */
+  id: string;
+
+  /** Human-readable name */
+  title: string;
+
+  /** What the pack hides */
+  description: string;
+
+  /** Sites the pack applies to; subdomains are included */
+  hosts: string[];
+
+  /** Elements hidden by the pack */
+  entries: ElementHidingEntry[];
+
+  /** Popup toggle turning the pack on, for packs not listed on the options page */
+  setting?: ElementHidingSetting;
+}
+
+/**
+ * Popup settings that turn on a built-in pack.
+ */
+export type ElementHidingSetting = keyof Pick<PopupSettings, 'hideYoutubeShorts' | 'hideYoutubeHomeFeed' | 'hideYoutubeSidebar'
+  | 'hideYoutubeEndScreen' | 'disableYoutubeAutoplay'>;
+
+/**
+ * Element hiding entry added by the user.
+ */
+export interface CustomHidingRule extends ElementHidingEntry {
+  /** Unique identifier of the rule */
+  id: string;
+
+  /** Site the rule applies to; subdomains are included */
+  host: string;
+}
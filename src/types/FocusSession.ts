@@ -0,0 +1,79 @@
+/**
+ * Focus Session Type Definitions
+ *
+ * Types for timed focus sessions (Pomodoro style), which temporarily enforce
+ * a chosen group of rules until the timer ends.
+ */
+
+/**
+ * How a focus session restricts browsing while a focus phase runs.
+ */
+export enum FocusSessionMode {
+  /** The chosen Block rules are enforced, even if they are normally disabled */
+  BlockRules = 'blockRules',
+
+  /** Only pages matching the chosen Allow rules may be opened */
+  Allowlist = 'allowlist',
+}
+
+/**
+ * Phase of a running focus session.
+ */
+export enum FocusSessionPhase {
+  /** Focus phase, restrictions are enforced */
+  Focus = 'focus',
+
+  /** Break phase, normal behavior is restored */
+  Break = 'break',
+}
+
+/**
+ * Settings chosen when starting a focus session.
+ */
+export interface FocusSessionSettings {
+  /** Length of each focus phase in minutes */
+  focusMinutes: number;
+
+  /** Length of each break in minutes (0 = no breaks) */
+  breakMinutes: number;
+
+  /** Number of focus phases in the session */
+  cycles: number;
+
+  /** How browsing is restricted during focus phases */
+  mode: FocusSessionMode;
+
+  /** IDs of the Block rules (or Allow rules in allowlist mode) used by the session */
+  ruleIds: string[];
+}
+
+/**
+ * State of a running focus session (local storage).
+ */
+export interface FocusSession extends FocusSessionSettings {
+  /** Current phase */
+  phase: FocusSessionPhase;
+
+  /** Number of the current focus phase, starting at 1 */
+  cycle: number;
+
+  /** Timestamp when the current phase ends */
+  phaseEndsAt: number;
+
+  /** Timestamp when the session was started */
+  startedAt: number;
+}
+
+/**
+ * Restriction applied to a page during a focus phase.
+ */
+export interface FocusBlock {
+  /** ID of the chosen Block rule that matched (not set for allowlist blocks) */
+  ruleId?: string;
+
+  /** Title shown on the alert page */
+  ruleTitle: string;
+
+  /** Timestamp when the focus phase ends */
+  allowedAt: number;
+}
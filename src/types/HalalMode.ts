@@ -0,0 +1,77 @@
+/**
+ * Halal Mode Type Definitions
+ *
+ * Types for Halal Mode content filtering: the categories of blocked sites, the
+ * domain list they are built from and the user's local changes to it.
+ */
+
+/**
+ * Category of sites blocked by Halal Mode.
+ */
+export enum HalalCategory {
+  /** Betting, casinos and lotteries */
+  Gambling = 'gambling',
+
+  /** Pornography and adult content */
+  Adult = 'adult',
+
+  /** Alcohol shops, brands and reviews */
+  Alcohol = 'alcohol',
+}
+
+/**
+ * Domain list Halal Mode is built from. The bundled list has this shape, and
+ * updated lists can be imported from a JSON file of the same shape.
+ */
+export interface HalalBlocklist {
+  /** Version of the list, e.g. "2025.1" */
+  version: string;
+
+  /** Blocked domains of each category; subdomains are blocked too */
+  domains: Record<HalalCategory, string[]>;
+
+  /** Words in a page's address or title that flag it, so that its images are blurred */
+  keywords: string[];
+}
+
+/**
+ * The user's local changes to the Halal Mode list (local storage).
+ */
+export interface HalalListState {
+  /** List imported from a file, used instead of the bundled list (undefined = bundled list) */
+  importedList?: HalalBlocklist;
+
+  /** When the list was imported */
+  importedAt?: number;
+
+  /** Domains blocked in addition to the list */
+  customDomains: string[];
+
+  /** Domains that are never blocked, even if the list contains them */
+  allowedDomains: string[];
+}
+
+/**
+ * Entry of the Halal Mode list that a page's domain matches.
+ */
+export interface HalalMatch {
+  /** Category of the matched entry (null = the user's custom domains) */
+  category: HalalCategory | null;
+
+  /** The matched list entry */
+  domain: string;
+}
+
+/**
+ * Search engine whose results are forced into safe search.
+ */
+export interface SafeSearchEngine {
+  /** RE2-compatible regular expression matching the engine's result pages */
+  regexFilter: string;
+
+  /** Query parameter enabling safe search */
+  param: string;
+
+  /** Value of the parameter */
+  value: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * Lock Type Definitions
+ *
+ * Types for the optional PIN or password that protects rules and settings
+ * from being loosened on impulse.
+ */
+
+/**
+ * A secret stored as a salted PBKDF2 hash.
+ */
+export interface LockSecretHash {
+  /** Random salt, base64 encoded */
+  salt: string;
+
+  /** PBKDF2-SHA-256 hash of the secret, base64 encoded */
+  hash: string;
+
+  /** Number of PBKDF2 iterations the hash was derived with */
+  iterations: number;
+}
+
+/**
+ * Stored lock configuration (sync storage). No lock is set while it is missing.
+ */
+export interface LockConfig {
+  /** Hash of the PIN or password */
+  pin: LockSecretHash;
+
+  /** Hash of the recovery code shown when the PIN was set */
+  recovery: LockSecretHash;
+}
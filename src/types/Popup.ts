@@ -1,10 +1,12 @@
 /**
  * Popup Interface Definitions
  * 
- * Type definitions for the extension popup functionality,
- * including settings and message passing between popup and content scripts.
+ * Type definitions for the settings managed by the extension popup.
  */
 
+import { OverrideFriction } from './RuleOverride';
+import { HalalCategory } from './HalalMode';
+
 /**
  * Settings managed by the popup interface.
  * These are quick toggles that users can enable/disable from the popup.
@@ -13,18 +15,51 @@ export interface PopupSettings {
   /** Whether YouTube Shorts should be hidden from video lists */
   hideYoutubeShorts: boolean;
 
-  /** Whether Halal Mode is enabled (future feature) */
-  halalMode: boolean; // For future implementation
-}
+  /** Whether the YouTube homepage feed should be hidden */
+  hideYoutubeHomeFeed: boolean;
 
-/**
- * Message structure for communication between popup and content scripts.
- * Used to send commands and state changes.
- */
-export interface MessageData {
-  /** The action/command to execute */
-  action: string;
+  /** Whether the related videos next to the YouTube player should be hidden */
+  hideYoutubeSidebar: boolean;
+
+  /** Whether the suggestion cards and video wall at the end of YouTube videos should be hidden */
+  hideYoutubeEndScreen: boolean;
+
+  /** Whether YouTube autoplay should be turned off */
+  disableYoutubeAutoplay: boolean;
+
+  /** IDs of the built-in element hiding packs turned on from the options page */
+  elementHidingPacks: string[];
+
+  /** Whether Halal Mode is enabled */
+  halalMode: boolean;
+
+  /** Categories of sites Halal Mode blocks */
+  halalCategories: HalalCategory[];
+
+  /** Whether Halal Mode enforces safe search and YouTube restricted mode */
+  halalSafeSearch: boolean;
+
+  /** Whether Halal Mode blurs images on pages flagged by the keyword list */
+  halalBlurImages: boolean;
+
+  /** Whether web pages not matched by any rule are blocked (only Allow rules open sites) */
+  allowlistMode: boolean;
+
+  /** Friction step required to override a rule from the alert page */
+  overrideFriction: OverrideFriction;
+
+  /** Minutes a rule stays exempt after an override */
+  overrideMinutes: number;
+
+  /** Remaining minutes of a Limit rule's budget at which a warning is shown */
+  limitWarningMinutes: number[];
+
+  /** Whether limit warnings are shown as a toast on the page */
+  limitWarningToast: boolean;
+
+  /** Whether limit warnings are shown as a browser notification */
+  limitWarningNotification: boolean;
 
-  /** Whether a feature should be enabled (optional) */
-  enabled?: boolean;
+  /** Minutes an open page stays usable after its Limit rule's budget runs out (0 = none) */
+  limitGraceMinutes: number;
 }
@@ -21,6 +21,6 @@ export interface PresetRule {
   /** How the pattern should be matched (contains, regex, etc.) */
   matchType: SiteRuleMatchType;
 
-  /** Action to take when the rule matches (block, limit, allow) */
+  /** Action to take when the rule matches (block, limit, allow, redirect) */
   action: SiteRuleAction;
 }
@@ -0,0 +1,28 @@
+/**
+ * Profile Type Definitions
+ *
+ * Types for named rule profiles (e.g. "Work", "Evening", "Weekend").
+ * Each profile holds its own ordered rule set; one profile is active at a time.
+ */
+
+/**
+ * A named rule profile.
+ */
+export interface Profile {
+  /** Unique identifier for the profile */
+  id: string;
+
+  /** Display name of the profile */
+  name: string;
+}
+
+/**
+ * Stored list of profiles and the active profile (sync storage).
+ */
+export interface ProfileState {
+  /** All profiles in display order */
+  profiles: Profile[];
+
+  /** ID of the profile whose rules are enforced */
+  activeProfileId: string;
+}
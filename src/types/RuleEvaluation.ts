@@ -0,0 +1,140 @@
+/**
+ * Rule Evaluation Type Definitions
+ *
+ * Types describing how the site rules apply to a URL: the decision that is
+ * enforced and a trace of every rule, used by the content script and by the
+ * rule tester on the options page.
+ */
+
+import { SiteRule } from './SiteRule';
+import { FocusBlock } from './FocusSession';
+import { HalalMatch } from './HalalMode';
+import { RuleExemptionRecord } from './RuleOverride';
+import { RuleUsageRecord } from './RuleUsage';
+import { AlertPageParams } from '../utils/alertUrl';
+import { LimitStatus } from '../utils/limitStatus';
+import { CompiledRuleSet } from '../utils/ruleMatcher';
+
+/**
+ * What happens when a URL is opened.
+ */
+export enum RuleDecision {
+  /** No rule applies and the page opens */
+  None = 'none',
+
+  /** An Allow rule applies and the page opens */
+  Allow = 'allow',
+
+  /** A Block rule applies */
+  Block = 'block',
+
+  /** A Limit rule applies; the page opens while time is left */
+  Limit = 'limit',
+
+  /** A Redirect rule applies and the page is sent to its target */
+  Redirect = 'redirect',
+
+  /** The applying Block or Limit rule is paused by an override */
+  Exempt = 'exempt',
+
+  /** A running focus session blocks the page */
+  Focus = 'focus',
+
+  /** Allowlist mode blocks the page because no rule applies */
+  AllowlistMode = 'allowlistMode',
+
+  /** Halal Mode blocks the page because its domain is on the Halal Mode list */
+  HalalMode = 'halalMode',
+}
+
+/**
+ * Result of evaluating a single rule against a URL.
+ */
+export enum RuleTraceStatus {
+  /** The rule matched and decides what happens */
+  Applied = 'applied',
+
+  /** The rule matched, but an earlier rule, Halal Mode or a focus session takes precedence */
+  Shadowed = 'shadowed',
+
+  /** The rule is disabled */
+  Disabled = 'disabled',
+
+  /** The rule is outside its schedule */
+  OutsideSchedule = 'outsideSchedule',
+
+  /** The pattern does not match the URL */
+  NoMatch = 'noMatch',
+
+  /** The pattern is invalid for its match type and never matches */
+  InvalidPattern = 'invalidPattern',
+}
+
+/**
+ * Trace entry for one rule, in evaluation order.
+ */
+export interface RuleTraceEntry {
+  /** The evaluated rule */
+  rule: SiteRule;
+
+  /** How the rule was evaluated */
+  status: RuleTraceStatus;
+
+  /** Human-readable explanation */
+  detail: string;
+}
+
+/**
+ * State the rules are evaluated against.
+ */
+export interface RuleEvaluationContext {
+  /** Compiled rules of the active profile, in evaluation order */
+  ruleSet: CompiledRuleSet;
+
+  /** Timestamp to evaluate schedules, overrides and limits at */
+  now: number;
+
+  /** Whether allowlist mode is on */
+  allowlistMode: boolean;
+
+  /** Rules currently paused by an override */
+  exemptions: RuleExemptionRecord;
+
+  /** Restriction of a running focus session, if it applies to the URL */
+  focusBlock: FocusBlock | null;
+
+  /** Halal Mode list entry blocking the URL, if any */
+  halalMatch: HalalMatch | null;
+
+  /** Limit usage counters; without them the limit status is not evaluated */
+  usage?: RuleUsageRecord;
+
+  /** Seconds since the browser started, used for startup delays */
+  uptimeSec?: number;
+}
+
+/**
+ * Outcome of evaluating all rules against a URL.
+ */
+export interface RuleEvaluation {
+  /** What happens when the URL is opened */
+  decision: RuleDecision;
+
+  /** The rule that decides, if any */
+  rule?: SiteRule;
+
+  /** Alert page the URL is sent to, if it is blocked */
+  alert?: AlertPageParams;
+
+  /** URL the page is sent to by the applying Redirect rule (undefined = no valid target for this URL) */
+  redirectUrl?: string;
+
+  /** Status of the applying Limit rule, if usage counters were given */
+  limitStatus?: LimitStatus;
+
+  /** Minutes left of the applying Limit rule's budget (undefined = unlimited or unknown) */
+  remainingMinutes?: number;
+
+  /** Every rule in evaluation order */
+  trace: RuleTraceEntry[];
+}
@@ -0,0 +1,54 @@
+/**
+ * Rule Override Type Definitions
+ *
+ * Types for temporarily overriding a Block or Limit rule from the alert page
+ * ("Continue anyway"), and for the log of past overrides.
+ */
+
+/**
+ * Friction step required before a rule can be overridden.
+ */
+export enum OverrideFriction {
+  /** Overrides are turned off */
+  Disabled = 'disabled',
+
+  /** Type a fixed phrase */
+  Phrase = 'phrase',
+
+  /** Wait for a countdown to finish */
+  Wait = 'wait',
+
+  /** Write a longer reason */
+  Reason = 'reason',
+}
+
+/**
+ * Active exemptions, mapping rule IDs to the timestamp when the exemption ends (local storage).
+ */
+export type RuleExemptionRecord = Record<string, number>;
+
+/**
+ * A recorded override of a rule.
+ */
+export interface RuleOverride {
+  /** ID of the overridden rule */
+  ruleId: string;
+
+  /** Title of the rule at the time of the override */
+  ruleTitle: string;
+
+  /** URL the user continued to */
+  url: string;
+
+  /** Reason given by the user */
+  reason: string;
+
+  /** Friction step that was completed */
+  friction: OverrideFriction;
+
+  /** Timestamp when the override was granted */
+  grantedAt: number;
+
+  /** Timestamp when the exemption ends */
+  expiresAt: number;
+}
@@ -0,0 +1,60 @@
+/**
+ * Rule Transfer Type Definitions
+ *
+ * Types for the JSON document used to export and import rules and settings,
+ * so that rule sets can be shared between browsers and people.
+ */
+
+import { SiteRule } from './SiteRule';
+import { PopupSettings } from './Popup';
+
+/**
+ * Rule as stored in an export document.
+ * IDs are left out because imported rules always get fresh IDs.
+ */
+export type ExportedRule = Omit<SiteRule, 'id'>;
+
+/**
+ * Versioned export document.
+ */
+export interface RuleExportDocument {
+  /** Marker identifying Keep Me Focus export files */
+  format: 'keep-me-focus';
+
+  /** Version of the document layout */
+  version: number;
+
+  /** ISO timestamp of the export */
+  exportedAt: string;
+
+  /** Exported rules in evaluation order */
+  rules: ExportedRule[];
+
+  /** Exported settings */
+  settings: PopupSettings;
+}
+
+/**
+ * Result of validating an import document.
+ */
+export interface RuleImportResult {
+  /** Validated rules, ready to be imported */
+  rules: ExportedRule[];
+
+  /** Validated settings, if the document contains them */
+  settings?: PopupSettings;
+
+  /** Validation errors; nothing is imported if there are any */
+  errors: string[];
+}
+
+/**
+ * How imported rules are combined with the existing rules.
+ */
+export enum RuleImportMode {
+  /** Append imported rules after the existing rules */
+  Merge = 'merge',
+
+  /** Replace all existing rules with the imported rules */
+  Replace = 'replace',
+}
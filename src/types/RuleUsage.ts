@@ -0,0 +1,26 @@
+/**
+ * Rule Usage Type Definitions
+ *
+ * Runtime usage state for Limit rules. Kept apart from the rule configuration
+ * so that counters can be updated frequently in local storage without
+ * rewriting the synced rules.
+ */
+
+/**
+ * Usage counters for a single Limit rule.
+ */
+export interface RuleUsage {
+  /** Number of minutes the site has been used in the current period */
+  usedMinutes: number;
+
+  /** Timestamp of the last reset */
+  lastResetAt: number;
+
+  /** Timestamp of the last use */
+  lastUsedAt: number;
+}
+
+/**
+ * Usage counters of all Limit rules, keyed by rule ID.
+ */
+export type RuleUsageRecord = Record<string, RuleUsage>;
@@ -39,6 +39,21 @@ export enum SiteRuleMatchType {
 
   /** Matches URLs that do NOT match the regular expression */
   NotRegex = 'notRegex',
+
+  /** Matches URLs whose host is the domain or one of its subdomains (e.g. "reddit.com") */
+  Domain = 'domain',
+
+  /** Matches URLs whose host is exactly the pattern (e.g. "www.reddit.com") */
+  ExactHost = 'exactHost',
+
+  /** Matches URLs on a domain whose path starts with a prefix (e.g. "youtube.com/shorts") */
+  PathPrefix = 'pathPrefix',
+
+  /** Matches URLs with a query parameter (e.g. "youtube.com?list=WL" or "list=WL") */
+  QueryParam = 'queryParam',
+
+  /** Matches URLs against a wildcard pattern (e.g. "*.reddit.com/r/*") */
+  Wildcard = 'wildcard',
 }
 
 /**
@@ -53,11 +68,14 @@ export enum SiteRuleActionType {
 
   /** Limit access to the site with time constraints */
   Limit = 'limit',
+
+  /** Send the site to another URL, e.g. Shorts to the regular watch page */
+  Redirect = 'redirect',
 }
 
 /**
  * Union type representing the possible actions for site rules.
- * Simple actions (Allow/Block) or complex time-limited actions.
+ * Simple actions (Allow/Block), complex time-limited actions or redirects.
  */
 export type SiteRuleAction = {
   /** Simple allow or block action */
@@ -74,15 +92,46 @@ export type SiteRuleAction = {
 
   /** Time in minutes after browser opens before site can be accessed */
   readonly delayMinutes: number;
+} | {
+  /** Redirect to another URL */
+  readonly type: SiteRuleActionType.Redirect;
+
+  /** URL to redirect to; with the Regex match type, $1 to $9 insert the pattern's capture groups */
+  readonly target: string;
+};
+
+/**
+ * The time-limited variant of a site rule action.
+ * Runtime usage counters are stored separately (see RuleUsage).
+ */
+export type SiteRuleLimitAction = Extract<SiteRuleAction, { type: SiteRuleActionType.Limit }>;
+
+/**
+ * A daily time window during which a scheduled rule is active.
+ * Times are expressed in minutes since midnight (0-1439).
+ * A window whose end is earlier than its start crosses midnight.
+ */
+export type SiteRuleTimeWindow = {
+  /** Start of the window, in minutes since midnight (inclusive) */
+  readonly start: number;
 
-  /** Number of minutes the site has been used (runtime state) */
-  usedMinutes: number;
+  /** End of the window, in minutes since midnight (exclusive) */
+  readonly end: number;
+};
 
-  /** Timestamp of the last reset (runtime state) */
-  lastResetAt: number;
+/**
+ * Schedule restricting when a rule is active.
+ * Rules without a schedule are active at all times.
+ */
+export type SiteRuleSchedule = {
+  /** Days of the week on which the rule is active (0 = Sunday, 6 = Saturday) */
+  readonly weekdays: number[];
 
-  /** Timestamp of the last use (runtime state) */
-  lastUsedAt: number;
+  /** Time windows within those days (empty = the whole day) */
+  readonly windows: SiteRuleTimeWindow[];
+
+  /** IANA time zone the schedule is evaluated in (undefined = browser local time) */
+  readonly timeZone?: string;
 };
 
 /**
@@ -107,4 +156,7 @@ export type SiteRule = {
 
   /** Whether the rule is currently enabled */
   readonly enabled: boolean;
+
+  /** Optional schedule limiting when the rule is active */
+  readonly schedule?: SiteRuleSchedule;
 };
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * Usage History Type Definitions
+ *
+ * Daily buckets of browsing time and rule activity, used by the
+ * statistics page to show where time goes.
+ */
+
+/**
+ * Usage recorded during a single day.
+ */
+export interface DailyUsage {
+  /** Seconds spent on each domain */
+  domains: Record<string, number>;
+
+  /** Seconds spent on pages matched by each rule, keyed by rule ID */
+  rules: Record<string, number>;
+
+  /** Number of times each Block or Limit rule fired, keyed by rule ID */
+  ruleHits: Record<string, number>;
+}
+
+/**
+ * Usage history keyed by local date (YYYY-MM-DD).
+ */
+export type UsageHistory = Record<string, DailyUsage>;
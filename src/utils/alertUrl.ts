@@ -0,0 +1,50 @@
+/**
+ * Alert Page URL Utility
+ *
+ * Builds links to the alert page shown when a site is blocked or limited.
+ * Shared by the content script redirects and the network-level rules
+ * compiled in the background script.
+ */
+
+/** Path of the alert page relative to the extension root */
+export const ALERT_PAGE_PATH = '/html/alert.html';
+
+/**
+ * Parameters understood by the alert page.
+ */
+export interface AlertPageParams {
+  /** Type of alert (block, limit or focus session) */
+  type: 'block' | 'limit' | 'focus';
+
+  /** ID of the rule that was triggered (optional, focus allowlists have no single rule) */
+  ruleId?: string;
+
+  /** Title of the rule that was triggered */
+  ruleTitle: string;
+
+  /** URL that triggered the alert (optional, may be passed in the fragment instead) */
+  currentUrl?: string;
+
+  /** Timestamp when access will be allowed again (optional) */
+  allowedAt?: number;
+}
+
+/**
+ * Build the extension-relative path of the alert page with its query parameters.
+ * @param params - Alert page parameters
+ * @returns Path such as "/html/alert.html?type=block&ruleTitle=..."
+ */
+export function buildAlertPath({ type, ruleId, ruleTitle, currentUrl, allowedAt }: AlertPageParams): string {
+  let alertPath = `${ALERT_PAGE_PATH}?type=${encodeURIComponent(type)}`;
+  if (currentUrl) {
+    alertPath += `&currentUrl=${encodeURIComponent(currentUrl)}`;
+  }
+  if (ruleId) {
+    alertPath += `&ruleId=${encodeURIComponent(ruleId)}`;
+  }
+  alertPath += `&ruleTitle=${encodeURIComponent(ruleTitle)}`;
+  if (allowedAt) {
+    alertPath += `&allowedAt=${encodeURIComponent(allowedAt)}`;
+  }
+  return alertPath;
+}
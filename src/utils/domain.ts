@@ -0,0 +1,32 @@
+/**
+ * Domain Utility
+ *
+ * Extracts a display domain from page URLs for statistics and quick rule creation in the popup,
+ * and tells web pages apart from internal browser and extension pages.
+ */
+
+/**
+ * Check whether a URL is a regular web page.
+ * Internal pages (extension pages, about:, chrome://, new tab) are not, and are
+ * never restricted by the allowlist mode or focus sessions.
+ * @param url - The page URL
+ * @returns True for http and https URLs
+ */
+export function isWebPage(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Get the domain of a web page URL, without a leading "www.".
+ * @param url - The page URL
+ * @returns The domain, or null for non-web URLs (extension pages, about:, etc.)
+ */
+export function getDomain(url: string): string | null {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:' || !hostname) return null;
+    return hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
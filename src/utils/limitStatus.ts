@@ -0,0 +1,57 @@
+/**
+ * Limit Status Utility
+ *
+ * Computes whether a Limit rule currently allows access, based on its
+ * time budget, reset period, startup delay and runtime usage counters.
+ */
+
+import { SiteRuleLimitAction } from "../types/SiteRule";
+import { RuleUsage } from "../types/RuleUsage";
+
+/**
+ * Result of evaluating a Limit rule.
+ */
+export interface LimitStatus {
+  /** Whether the site may be used right now */
+  allowed: boolean;
+
+  /** Timestamp when access will be allowed again (only when not allowed) */
+  allowedAt?: number;
+}
+
+/**
+ * Check whether the reset period of a Limit rule has elapsed.
+ * @param action - The Limit action
+ * @param usage - The rule's usage counters
+ * @param now - Current timestamp
+ * @returns True if the usage counter should be reset
+ */
+export function isLimitResetDue(action: SiteRuleLimitAction, usage: RuleUsage, now: number): boolean {
+  return action.resetAfterMinutes > 0 && now - usage.lastResetAt >= action.resetAfterMinutes * 60 * 1000;
+}
+
+/**
+ * Evaluate whether a Limit rule currently allows access.
+ * An allowed time of 0 means the budget is unlimited (only the startup delay applies).
+ * @param action - The Limit action
+ * @param usage - The rule's usage counters
+ * @param now - Current timestamp
+ * @param uptimeSec - Seconds since the browser started
+ * @returns The limit status
+ */
+export function getLimitStatus(action: SiteRuleLimitAction, usage: RuleUsage, now: number, uptimeSec: number): LimitStatus {
+  const delaySeconds = action.delayMinutes * 60;
+
+  if (delaySeconds > uptimeSec) {
+    return { allowed: false, allowedAt: now + (delaySeconds - uptimeSec) * 1000 };
+  }
+
+  if (action.allowedMinutes > 0 && usage.usedMinutes >= action.allowedMinutes && !isLimitResetDue(action, usage, now)) {
+    return {
+      allowed: false,
+      allowedAt: action.resetAfterMinutes > 0 ? usage.lastResetAt + action.resetAfterMinutes * 60 * 1000 : undefined
+    };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,133 @@
+/**
+ * Redirect Target Utility
+ *
+ * Builds the URL a Redirect rule sends a page to. Targets of rules with the
+ * Regex match type may insert the pattern's capture groups as $1 to $9, e.g.
+ * "https://www.youtube.com/watch?v=$1" for "youtube\.com/shorts/([\w-]+)".
+ * Shared by the content script, the rule form and the network-level rules.
+ */
+
+import { SiteRule, SiteRuleActionType, SiteRuleMatchType } from '../types/SiteRule';
+import { compileMatcher, matchRule } from './ruleMatcher';
+import { isWebPage } from './domain';
+
+/** Placeholder of a capture group in a redirect target */
+const GROUP_PLACEHOLDER = /\$([1-9])/g;
+
+/**
+ * Get the URL a Redirect rule sends a page to.
+ * @param rule - The applying rule
+ * @param url - URL of the page
+ * @returns The target URL, or null if the rule does not redirect, the target is not a web
+ * page, or it would lead back to the page or to another match of the rule
+ */
+export function getRedirectUrl(rule: SiteRule, url: string): string | null {
+  if (rule.action.type !== SiteRuleActionType.Redirect) return null;
+
+  let target = rule.action.target;
+  if (rule.matchType === SiteRuleMatchType.Regex) {
+    let groups: RegExpExecArray | null;
+    try {
+      groups = new RegExp(rule.pattern).exec(url);
+    } catch {
+      return null;
+    }
+    if (!groups) return null;
+    target = target.replace(GROUP_PLACEHOLDER, (_placeholder, group: string) => groups?.[Number(group)] ?? '');
+  }
+
+  try {
+    target = new URL(target).href;
+  } catch {
+    return null;
+  }
+
+  // Redirecting to a URL the rule matches again would loop
+  if (!isWebPage(target) || target === url || matchRule(rule, target)) return null;
+  return target;
+}
+
+/**
+ * Get why a redirect target cannot be used for a rule.
+ * @param target - The target URL
+ * @param matchType - Match type of the rule
+ * @param pattern - Pattern of the rule
+ * @returns The error message, or null if the target is valid
+ */
+export function getRedirectTargetError(target: string, matchType: SiteRuleMatchType, pattern: string): string | null {
+  if (!target) return 'Enter the URL to redirect to';
+
+  const groups = [...target.matchAll(GROUP_PLACEHOLDER)].map(match => Number(match[1]));
+  if (groups.length > 0) {
+    if (matchType !== SiteRuleMatchType.Regex) {
+      return 'Capture groups such as $1 can only be used with the Regex match type';
+    }
+
+    const available = countCaptureGroups(pattern);
+    const missing = available !== null ? groups.find(group => group > available) : undefined;
+    if (missing !== undefined) {
+      return `The pattern has no capture group $${missing}`;
+    }
+  }
+
+  const sample = target.replace(GROUP_PLACEHOLDER, 'x');
+  let url: URL;
+  try {
+    url = new URL(sample);
+  } catch {
+    return 'Enter a full URL starting with http:// or https://';
+  }
+  if (!isWebPage(url.href)) return 'Enter a full URL starting with http:// or https://';
+
+  if (groups.length === 0 && matchesPattern(matchType, pattern, url.href)) {
+    return 'The target matches the pattern itself, so the page would redirect to itself';
+  }
+  return null;
+}
+
+/**
+ * Convert a redirect target into a network rule substitution, where capture groups are written \1 to \9.
+ * @param target - The target URL
+ * @returns The regex substitution
+ */
+export function toRegexSubstitution(target: string): string {
+  return target.replace(/\\/g, '\\\\').replace(GROUP_PLACEHOLDER, '\\$1');
+}
+
+/**
+ * Check whether a redirect target inserts capture groups.
+ * @param target - The target URL
+ * @returns True if the target contains $1 to $9
+ */
+export function hasCaptureGroups(target: string): boolean {
+  return new RegExp(GROUP_PLACEHOLDER.source).test(target);
+}
+
+/**
+ * Check whether a pattern matches a URL.
+ * @param matchType - Match type of the pattern
+ * @param pattern - The pattern
+ * @param url - The URL
+ * @returns True if the pattern is valid and matches
+ */
+function matchesPattern(matchType: SiteRuleMatchType, pattern: string, url: string): boolean {
+  try {
+    return compileMatcher(matchType, pattern)(url);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Count the capture groups of a regular expression.
+ * @param pattern - The regular expression
+ * @returns The number of capture groups, or null if the pattern is invalid
+ */
+function countCaptureGroups(pattern: string): number | null {
+  try {
+    // An empty alternative always matches, so the result lists every group
+    return (new RegExp(`${pattern}|`).exec('')?.length ?? 1) - 1;
+  } catch {
+    return null;
+  }
+}
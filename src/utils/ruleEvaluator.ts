@@ -0,0 +1,149 @@
+/**
+ * Rule Evaluator Utility
+ *
+ * Pure evaluation of the site rules against a URL. Decides what happens when the
+ * URL is opened (focus session, first matching rule, overrides, allowlist mode)
+ * and records why every rule did or did not apply. Used by the content script to
+ * enforce rules and by the rule tester on the options page to explain them.
+ */
+
+import { SiteRule, SiteRuleActionType } from '../types/SiteRule';
+import { RuleDecision, RuleEvaluation, RuleEvaluationContext, RuleTraceEntry, RuleTraceStatus } from '../types/RuleEvaluation';
+import { isScheduleActive } from './scheduleMatcher';
+import { getCandidateRules } from './ruleMatcher';
+import { getLimitStatus, isLimitResetDue } from './limitStatus';
+import { isWebPage } from './domain';
+import { getRedirectUrl } from './redirectTarget';
+import assertNever from './assertNever';
+import { HalalMatch } from '../types/HalalMode';
+import { HALAL_CATEGORY_LABELS } from '../config/halalBlocklist';
+
+/** Title shown on the alert page for pages blocked by the allowlist mode */
+export const ALLOWLIST_MODE_TITLE = 'Allowlist mode (no matching rule)';
+
+/**
+ * Get the title shown on the alert page for pages blocked by Halal Mode.
+ * @param category - Category of the matched list entry (null = custom domains)
+ * @returns Title such as "Halal Mode (Gambling)"
+ */
+export function getHalalModeTitle(category: HalalMatch['category']): string {
+  return `Halal Mode (${category ? HALAL_CATEGORY_LABELS[category] : 'custom domain'})`;
+}
+
+/**
+ * Evaluate the rules against a URL.
+ * Halal Mode takes precedence, followed by a running focus phase; otherwise the
+ * first enabled, in-schedule rule whose pattern matches decides. In allowlist mode, web pages without a
+ * matching rule are blocked.
+ * @param url - The URL to evaluate
+ * @param context - Rules and runtime state to evaluate against
+ * @returns The decision and a trace of every rule
+ */
+export function evaluateRules(url: string, context: RuleEvaluationContext): RuleEvaluation {
+  const trace: RuleTraceEntry[] = [];
+  const candidates = new Set(getCandidateRules(context.ruleSet, url));
+  let applied: SiteRule | undefined;
+
+  for (const compiled of context.ruleSet.rules) {
+    const rule = compiled.rule;
+
+    if (!rule.enabled) {
+      trace.push({ rule, status: RuleTraceStatus.Disabled, detail: 'The rule is disabled' });
+      continue;
+    }
+
+    if (rule.schedule && !isScheduleActive(rule.schedule, new Date(context.now))) {
+      trace.push({ rule, status: RuleTraceStatus.OutsideSchedule, detail: 'The rule is outside its schedule' });
+      continue;
+    }
+
+    if (compiled.error) {
+      trace.push({ rule, status: RuleTraceStatus.InvalidPattern, detail: `${compiled.error}; the rule never matches` });
+    } else if (!candidates.has(compiled) || !compiled.matches?.(url)) {
+      // Rules restricted to other hosts are not tested
+      trace.push({ rule, status: RuleTraceStatus.NoMatch, detail: `The URL does not match "${rule.matchType}" ${rule.pattern}` });
+    } else if (applied || context.halalMatch || context.focusBlock) {
+      const detail = applied
+        ? `An earlier rule (${applied.title}) takes precedence`
+        : context.halalMatch ? 'Halal Mode takes precedence' : 'A running focus session takes precedence';
+      trace.push({ rule, status: RuleTraceStatus.Shadowed, detail });
+    } else {
+      applied = rule;
+      trace.push({ rule, status: RuleTraceStatus.Applied, detail: 'First enabled rule that matches' });
+    }
+  }
+
+  if (context.halalMatch) {
+    return {
+      decision: RuleDecision.HalalMode,
+      alert: { type: 'block', currentUrl: url, ruleTitle: getHalalModeTitle(context.halalMatch.category) },
+      trace
+    };
+  }
+
+  if (context.focusBlock) {
+    return {
+      decision: RuleDecision.Focus,
+      rule: context.ruleSet.rules.find(compiled => compiled.rule.id === context.focusBlock?.ruleId)?.rule,
+      alert: { type: 'focus', currentUrl: url, ...context.focusBlock },
+      trace
+    };
+  }
+
+  if (!applied) {
+    if (context.allowlistMode && isWebPage(url)) {
+      return {
+        decision: RuleDecision.AllowlistMode,
+        alert: { type: 'block', currentUrl: url, ruleTitle: ALLOWLIST_MODE_TITLE },
+        trace
+      };
+    }
+    return { decision: RuleDecision.None, trace };
+  }
+
+  // Rules overridden from the alert page are not enforced until the exemption ends
+  if (applied.action.type !== SiteRuleActionType.Allow && (context.exemptions[applied.id] || 0) > context.now) {
+    return { decision: RuleDecision.Exempt, rule: applied, trace };
+  }
+
+  switch (applied.action.type) {
+    case SiteRuleActionType.Allow:
+      return { decision: RuleDecision.Allow, rule: applied, trace };
+    case SiteRuleActionType.Block:
+      return {
+        decision: RuleDecision.Block,
+        rule: applied,
+        alert: { type: 'block', currentUrl: url, ruleId: applied.id, ruleTitle: applied.title },
+        trace
+      };
+    case SiteRuleActionType.Limit: {
+      if (!context.usage || context.uptimeSec === undefined) {
+        return { decision: RuleDecision.Limit, rule: applied, trace };
+      }
+
+      const action = applied.action;
+      const usage = context.usage[applied.id] || { usedMinutes: 0, lastResetAt: context.now, lastUsedAt: 0 };
+      const limitStatus = getLimitStatus(action, usage, context.now, context.uptimeSec);
+      const usedMinutes = isLimitResetDue(action, usage, context.now) ? 0 : usage.usedMinutes;
+
+      return {
+        decision: RuleDecision.Limit,
+        rule: applied,
+        limitStatus,
+        remainingMinutes: action.allowedMinutes > 0 ? Math.max(0, action.allowedMinutes - usedMinutes) : undefined,
+        alert: limitStatus.allowed ? undefined : {
+          type: 'limit',
+          currentUrl: url,
+          ruleId: applied.id,
+          ruleTitle: applied.title,
+          allowedAt: limitStatus.allowedAt
+        },
+        trace
+      };
+    }
+    case SiteRuleActionType.Redirect:
+      return { decision: RuleDecision.Redirect, rule: applied, redirectUrl: getRedirectUrl(applied, url) ?? undefined, trace };
+    default:
+      return assertNever(applied.action);
+  }
+}
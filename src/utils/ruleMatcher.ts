@@ -0,0 +1,218 @@
+/**
+ * Compiled Rule Matcher Utility
+ *
+ * Compiles rule patterns once into cached matchers and indexes the rules by host,
+ * so that checking a URL neither rebuilds regular expressions nor tests rules
+ * that cannot apply to it. Invalid patterns are flagged instead of throwing.
+ */
+
+import { SiteRule, SiteRuleMatchType } from '../types/SiteRule';
+import { siteRulesMatcher } from './siteRulesMatcher';
+import { getStructuredHosts, isStructuredMatchType, toStructuredRegex } from './urlPattern';
+
+/** Function checking whether a URL matches a compiled pattern */
+export type UrlMatcher = (url: string) => boolean;
+
+/** Compiled patterns are dropped once the cache grows beyond this many entries */
+const MAX_CACHED_MATCHERS = 1000;
+
+/** Compiled matchers, or the compilation error, by match type and pattern */
+const matcherCache = new Map<string, UrlMatcher | Error>();
+
+/**
+ * A rule with its compiled pattern.
+ */
+export interface CompiledRule {
+  /** The rule */
+  rule: SiteRule;
+
+  /** Position of the rule in evaluation order */
+  index: number;
+
+  /** Matcher of the pattern, or null if the pattern is invalid */
+  matches: UrlMatcher | null;
+
+  /** Why the pattern is invalid, if it is */
+  error: string | null;
+}
+
+/**
+ * Rules compiled for fast lookup.
+ */
+export interface CompiledRuleSet {
+  /** All rules in evaluation order */
+  rules: CompiledRule[];
+
+  /** Positions of the rules restricted to a host, by host */
+  hostIndex: Map<string, number[]>;
+
+  /** Positions of the valid rules that may match any host */
+  anyHost: number[];
+}
+
+/**
+ * Compile a pattern into a matcher, reusing earlier compilations.
+ * @param matchType - The match type of the pattern
+ * @param pattern - The rule pattern
+ * @returns The matcher
+ * @throws Error describing why the pattern is invalid
+ */
+export function compileMatcher(matchType: SiteRuleMatchType, pattern: string): UrlMatcher {
+  const key = `${matchType}\u0000${pattern}`;
+  let cached = matcherCache.get(key);
+
+  if (!cached) {
+    cached = createMatcher(matchType, pattern);
+    if (matcherCache.size >= MAX_CACHED_MATCHERS) matcherCache.clear();
+    matcherCache.set(key, cached);
+  }
+
+  if (cached instanceof Error) throw cached;
+  return cached;
+}
+
+/**
+ * Get why a pattern is invalid for its match type.
+ * @param matchType - The match type of the pattern
+ * @param pattern - The rule pattern
+ * @returns The error message, or null if the pattern is valid
+ */
+export function getPatternError(matchType: SiteRuleMatchType, pattern: string): string | null {
+  try {
+    compileMatcher(matchType, pattern);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Check whether a rule pattern matches a URL.
+ * @param rule - The rule to check
+ * @param url - The URL to match against
+ * @returns True or false, or null if the pattern is invalid for its match type
+ */
+export function matchRule(rule: SiteRule, url: string): boolean | null {
+  try {
+    return compileMatcher(rule.matchType, rule.pattern)(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compile rules and index them by host.
+ * @param rules - Rules in evaluation order
+ * @returns The compiled rules
+ */
+export function compileRuleSet(rules: SiteRule[]): CompiledRuleSet {
+  const ruleSet: CompiledRuleSet = { rules: [], hostIndex: new Map(), anyHost: [] };
+
+  rules.forEach((rule, index) => {
+    let matches: UrlMatcher | null = null;
+    let error: string | null = null;
+    try {
+      matches = compileMatcher(rule.matchType, rule.pattern);
+    } catch (compileError) {
+      error = (compileError as Error).message;
+    }
+    ruleSet.rules.push({ rule, index, matches, error });
+    if (!matches) return;
+
+    const hosts = isStructuredMatchType(rule.matchType) ? getStructuredHosts(rule.matchType, rule.pattern) : null;
+    if (!hosts) {
+      ruleSet.anyHost.push(index);
+      return;
+    }
+
+    new Set(hosts).forEach(host => {
+      const indexes = ruleSet.hostIndex.get(host);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        ruleSet.hostIndex.set(host, [index]);
+      }
+    });
+  });
+
+  return ruleSet;
+}
+
+/**
+ * Get the rules that may match a URL, skipping rules restricted to other hosts
+ * and rules with invalid patterns.
+ * @param ruleSet - The compiled rules
+ * @param url - The URL to look up
+ * @returns The candidate rules in evaluation order
+ */
+export function getCandidateRules(ruleSet: CompiledRuleSet, url: string): CompiledRule[] {
+  const indexes = new Set(ruleSet.anyHost);
+
+  getHostKeys(url).forEach(key => {
+    ruleSet.hostIndex.get(key)?.forEach(index => indexes.add(index));
+  });
+
+  return [...indexes].sort((a, b) => a - b).map(index => ruleSet.rules[index]);
+}
+
+/**
+ * Find the first rule that matches a URL.
+ * @param ruleSet - The compiled rules
+ * @param url - The URL to look up
+ * @param isActive - Whether a rule is currently evaluated (e.g. enabled and in schedule)
+ * @returns The matching rule, or undefined if none matches
+ */
+export function findFirstMatch(ruleSet: CompiledRuleSet, url: string, isActive: (rule: SiteRule) => boolean): SiteRule | undefined {
+  return getCandidateRules(ruleSet, url)
+    .find(compiled => isActive(compiled.rule) && compiled.matches?.(url))?.rule;
+}
+
+/**
+ * Build the matcher of a pattern.
+ * @param matchType - The match type of the pattern
+ * @param pattern - The rule pattern
+ * @returns The matcher, or the error if the pattern is invalid
+ */
+function createMatcher(matchType: SiteRuleMatchType, pattern: string): UrlMatcher | Error {
+  if (isStructuredMatchType(matchType)) {
+    const regex = toStructuredRegex(matchType, pattern);
+    if (!regex) return new Error(`The pattern is not valid for "${matchType}"`);
+
+    const compiled = new RegExp(regex);
+    return url => compiled.test(url);
+  }
+
+  if (matchType === SiteRuleMatchType.Regex || matchType === SiteRuleMatchType.NotRegex) {
+    let compiled: RegExp;
+    try {
+      compiled = new RegExp(pattern);
+    } catch (error) {
+      // The message reads "Invalid regular expression: /.../: <reason>"
+      return error as Error;
+    }
+    return matchType === SiteRuleMatchType.Regex ? url => compiled.test(url) : url => !compiled.test(url);
+  }
+
+  const matcher = siteRulesMatcher[matchType];
+  if (!matcher) return new Error(`Unknown match type "${matchType}"`);
+  return url => matcher(url, pattern);
+}
+
+/**
+ * Get the host index keys of a URL: its host and every parent domain.
+ * The host is taken as the structured expressions see it, so the index never
+ * skips a rule whose expression could match.
+ * @param url - The URL to look up
+ * @returns The keys, or none if the URL has no host
+ */
+function getHostKeys(url: string): string[] {
+  const authority = /^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/.exec(url)?.[1];
+  if (!authority) return [];
+
+  const host = authority.replace(/^.*@/, '').replace(/:\d+$/, '');
+  const keys = [host];
+  for (let dot = host.indexOf('.'); dot >= 0; dot = host.indexOf('.', dot + 1)) {
+    keys.push(host.slice(dot + 1));
+  }
+  return keys;
+}
@@ -0,0 +1,101 @@
+/**
+ * Rule Strictness Utility
+ *
+ * Tells whether a change to the rules loosens them, i.e. may allow more browsing
+ * than before. Loosening changes require the PIN when a lock is set; changes that
+ * only make rules stricter never do.
+ */
+
+import { SiteRule, SiteRuleAction, SiteRuleActionType } from '../types/SiteRule';
+import assertNever from './assertNever';
+
+/**
+ * Rank an action type from the most permissive (0) to the strictest.
+ * Redirects keep the page from opening like blocks do.
+ * @param type - The action type
+ * @returns The rank
+ */
+function getActionRank(type: SiteRuleActionType): number {
+  switch (type) {
+    case SiteRuleActionType.Allow:
+      return 0;
+    case SiteRuleActionType.Limit:
+      return 1;
+    case SiteRuleActionType.Block:
+    case SiteRuleActionType.Redirect:
+      return 2;
+    default:
+      return assertNever(type);
+  }
+}
+
+/**
+ * Check whether an action allows more than another one.
+ * Limits loosen with a larger budget (0 = unlimited), a shorter reset period or a shorter startup delay.
+ * Turning a Block rule into a Redirect rule, or changing a redirect target, may open pages the rule kept closed.
+ * @param before - The current action
+ * @param after - The new action
+ * @returns True if the new action is looser in any way
+ */
+function isLooserAction(before: SiteRuleAction, after: SiteRuleAction): boolean {
+  const rankBefore = getActionRank(before.type);
+  const rankAfter = getActionRank(after.type);
+  if (rankAfter !== rankBefore) return rankAfter < rankBefore;
+  if (after.type === SiteRuleActionType.Redirect) {
+    return before.type !== SiteRuleActionType.Redirect || after.target !== before.target;
+  }
+  if (before.type !== SiteRuleActionType.Limit || after.type !== SiteRuleActionType.Limit) return false;
+
+  const budget = (minutes: number) => minutes > 0 ? minutes : Infinity;
+  const resetPeriod = (minutes: number) => minutes > 0 ? minutes : Infinity;
+
+  return budget(after.allowedMinutes) > budget(before.allowedMinutes)
+    || resetPeriod(after.resetAfterMinutes) < resetPeriod(before.resetAfterMinutes)
+    || after.delayMinutes < before.delayMinutes;
+}
+
+/**
+ * Check whether editing a rule loosens it.
+ * Changed patterns and schedules count as loosening, since they may stop matching
+ * pages or times that the rule covered; removing a schedule only makes a rule stricter.
+ * Disabling a rule loosens it like removing it. Enabling a rule that does not block loosens
+ * the rules, since wherever it sits it may take over pages a stricter rule after it covered;
+ * a disabled rule is edited freely, as enabling it is checked.
+ * @param before - The rule as it is stored
+ * @param after - The rule with the changes applied
+ * @returns True if the change may allow more browsing
+ */
+export function isLooseningEdit(before: SiteRule, after: SiteRule): boolean {
+  if (!after.enabled) return isLooseningRemoval(before);
+  if (!before.enabled) return after.action.type !== SiteRuleActionType.Block;
+
+  if (after.pattern !== before.pattern || after.matchType !== before.matchType) return true;
+  if (after.schedule && JSON.stringify(after.schedule) !== JSON.stringify(before.schedule)) return true;
+
+  return isLooserAction(before.action, after.action);
+}
+
+/**
+ * Check whether adding a rule loosens the rules.
+ * Allow rules always do. Rules added after all others only apply to pages no other
+ * rule matches, so only Allow rules loosen there; a Limit or Redirect rule added
+ * before the others may also take over pages a stricter rule covered.
+ * @param rule - The new rule
+ * @param first - Whether the rule is evaluated before all others
+ * @returns True if the new rule may allow more browsing
+ */
+export function isLooseningAddition(rule: Omit<SiteRule, 'id'>, first: boolean): boolean {
+  if (!rule.enabled) return false;
+  return rule.action.type === SiteRuleActionType.Allow
+    || (first && (rule.action.type === SiteRuleActionType.Limit || rule.action.type === SiteRuleActionType.Redirect));
+}
+
+/**
+ * Check whether removing (or disabling) a rule loosens the rules.
+ * Removing an Allow rule only makes the remaining rules stricter.
+ * @param rule - The rule to remove
+ * @returns True if the removal may allow more browsing
+ */
+export function isLooseningRemoval(rule: SiteRule): boolean {
+  return rule.enabled && rule.action.type !== SiteRuleActionType.Allow;
+}
@@ -0,0 +1,175 @@
+/**
+ * Rule Schedule Utility
+ *
+ * Provides helpers for evaluating, parsing and formatting rule schedules.
+ * Schedules are evaluated in their configured time zone and support
+ * time windows that cross midnight.
+ */
+
+import { SiteRuleSchedule, SiteRuleTimeWindow } from "../types/SiteRule";
+
+/** Short weekday names indexed by day number (0 = Sunday) */
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+/** Number of minutes in a day */
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Get the weekday and minutes since midnight of a date in the given time zone.
+ * @param date - The date to convert
+ * @param timeZone - IANA time zone (undefined = browser local time)
+ * @returns Weekday (0 = Sunday) and minutes since midnight
+ */
+function getZonedTime(date: Date, timeZone?: string): { weekday: number; minutes: number } {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(date);
+
+      const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+      const weekday = WEEKDAY_NAMES.indexOf(part('weekday') as typeof WEEKDAY_NAMES[number]);
+      const minutes = parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10);
+
+      if (weekday !== -1 && !isNaN(minutes)) {
+        return { weekday, minutes };
+      }
+    } catch (error) {
+      console.warn(`Invalid schedule time zone "${timeZone}", using local time:`, error);
+    }
+  }
+
+  return { weekday: date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+}
+
+/**
+ * Check whether a schedule is active at the given moment.
+ * @param schedule - The schedule to evaluate
+ * @param date - The moment to check (defaults to now)
+ * @returns True if the schedule is active
+ *
+ * @example
+ * ```typescript
+ * // Weekdays from 22:00 until 02:00 the next morning
+ * const schedule = { weekdays: [1, 2, 3, 4, 5], windows: [{ start: 1320, end: 120 }] };
+ * isScheduleActive(schedule, new Date('2024-01-06T01:00:00')); // true (Friday night)
+ * ```
+ */
+export function isScheduleActive(schedule: SiteRuleSchedule, date: Date = new Date()): boolean {
+  const { weekday, minutes } = getZonedTime(date, schedule.timeZone);
+  const previousWeekday = (weekday + 6) % 7;
+  const activeToday = schedule.weekdays.includes(weekday);
+
+  // No windows means the rule is active for the whole day
+  if (schedule.windows.length === 0) {
+    return activeToday;
+  }
+
+  return schedule.windows.some(({ start, end }) => {
+    if (start === end) {
+      // A zero-length window covers the whole day
+      return activeToday;
+    }
+
+    if (start < end) {
+      return activeToday && minutes >= start && minutes < end;
+    }
+
+    // Window crosses midnight: the part after midnight belongs to the previous day
+    return (activeToday && minutes >= start) || (schedule.weekdays.includes(previousWeekday) && minutes < end);
+  });
+}
+
+/**
+ * Check whether a string is a time zone supported by the browser.
+ * @param timeZone - IANA time zone name
+ * @returns True if the time zone can be used in a schedule
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format minutes since midnight as HH:MM.
+ * @param minutes - Minutes since midnight
+ * @returns Formatted time (e.g., "09:30")
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Format a list of time windows for display or editing.
+ * @param windows - The time windows to format
+ * @returns Comma-separated windows (e.g., "09:00-17:00, 22:00-02:00")
+ */
+export function formatTimeWindows(windows: SiteRuleTimeWindow[]): string {
+  return windows.map(w => `${formatTimeOfDay(w.start)}-${formatTimeOfDay(w.end)}`).join(', ');
+}
+
+/**
+ * Parse a comma-separated list of HH:MM-HH:MM time windows.
+ * @param value - Text to parse (e.g., "09:00-17:00, 22:00-02:00")
+ * @returns Parsed windows, or null if the text is not valid
+ */
+export function parseTimeWindows(value: string): SiteRuleTimeWindow[] | null {
+  const windows: SiteRuleTimeWindow[] = [];
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    const match = entry.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+
+    const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(n => parseInt(n, 10));
+    if (startMinutes > 59 || endMinutes > 59) return null;
+    if (startHours * 60 + startMinutes > MINUTES_PER_DAY || endHours * 60 + endMinutes > MINUTES_PER_DAY) return null;
+
+    // Allow "24:00" as an alias for midnight
+    windows.push({
+      start: (startHours * 60 + startMinutes) % MINUTES_PER_DAY,
+      end: (endHours * 60 + endMinutes) % MINUTES_PER_DAY
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Format a schedule as a short human-readable description.
+ * Consecutive weekdays are collapsed into ranges.
+ * @param schedule - The schedule to describe
+ * @returns Description (e.g., "Mon–Fri 09:00-17:00")
+ */
+export function formatSchedule(schedule: SiteRuleSchedule): string {
+  const days = [...schedule.weekdays].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  let rangeStart = 0;
+  for (let i = 1; i <= days.length; i++) {
+    if (i === days.length || days[i] !== days[i - 1] + 1) {
+      const first = days[rangeStart];
+      const last = days[i - 1];
+      ranges.push(first === last
+        ? WEEKDAY_NAMES[first]
+        : `${WEEKDAY_NAMES[first]}–${WEEKDAY_NAMES[last]}`);
+      rangeStart = i;
+    }
+  }
+
+  const dayText = days.length === 7 ? 'Every day' : days.length === 0 ? 'No days' : ranges.join(', ');
+  const timeText = schedule.windows.length > 0 ? ` ${formatTimeWindows(schedule.windows)}` : '';
+  const zoneText = schedule.timeZone ? ` (${schedule.timeZone})` : '';
+
+  return `${dayText}${timeText}${zoneText}`;
+}
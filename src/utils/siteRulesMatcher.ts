@@ -6,6 +6,7 @@
  */
 
 import { SiteRuleMatchType } from "../types/SiteRule";
+import { matchesStructuredPattern } from "./urlPattern";
 
 /**
  * Collection of URL matching functions for site rules.
@@ -47,4 +48,19 @@ export const siteRulesMatcher: Record<SiteRuleMatchType, (url: string, pattern:
 
   /** Check if URL does NOT match the regular expression pattern */
   [SiteRuleMatchType.NotRegex]: (url, pattern) => !(new RegExp(pattern).test(url)),
+
+  /** Check if URL's host is the domain or a subdomain of it */
+  [SiteRuleMatchType.Domain]: (url, pattern) => matchesStructuredPattern(SiteRuleMatchType.Domain, url, pattern),
+
+  /** Check if URL's host equals the pattern */
+  [SiteRuleMatchType.ExactHost]: (url, pattern) => matchesStructuredPattern(SiteRuleMatchType.ExactHost, url, pattern),
+
+  /** Check if URL is on the host and its path starts with the prefix */
+  [SiteRuleMatchType.PathPrefix]: (url, pattern) => matchesStructuredPattern(SiteRuleMatchType.PathPrefix, url, pattern),
+
+  /** Check if URL has the query parameter */
+  [SiteRuleMatchType.QueryParam]: (url, pattern) => matchesStructuredPattern(SiteRuleMatchType.QueryParam, url, pattern),
+
+  /** Check if URL matches the wildcard pattern */
+  [SiteRuleMatchType.Wildcard]: (url, pattern) => matchesStructuredPattern(SiteRuleMatchType.Wildcard, url, pattern),
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * Browser Uptime Utility
+ *
+ * Computes how long the browser has been running, based on the startup
+ * time recorded by the background script.
+ */
+
+import browser from 'webextension-polyfill';
+import { STORAGE_KEYS } from '../config/storage';
+
+/**
+ * Get the number of seconds since the browser started.
+ * @returns Promise that resolves to the uptime in seconds
+ */
+export async function getUptimeSeconds(): Promise<number> {
+  const lastStartupTime = await browser.storage.local.get(STORAGE_KEYS.STARTUP_TIME);
+  return (Date.now() - (lastStartupTime[STORAGE_KEYS.STARTUP_TIME] as number || Date.now())) / 1000;
+}
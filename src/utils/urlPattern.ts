@@ -0,0 +1,279 @@
+/**
+ * Structured URL Pattern Utility
+ *
+ * Converts the patterns of URL-aware match types (domain, exact host, path prefix,
+ * query parameter and wildcard) into regular expressions matching the whole URL.
+ * The same expressions are used by the content script and by the network rules,
+ * so both always agree on which URLs a rule applies to.
+ */
+
+import { SiteRuleMatchType } from '../types/SiteRule';
+import assertNever from './assertNever';
+
+/** Match types whose patterns are parsed instead of compared as plain text */
+export type StructuredMatchType =
+  | SiteRuleMatchType.Domain
+  | SiteRuleMatchType.ExactHost
+  | SiteRuleMatchType.PathPrefix
+  | SiteRuleMatchType.QueryParam
+  | SiteRuleMatchType.Wildcard;
+
+/** Scheme and separator at the start of a URL */
+const SCHEME = '[a-z][a-z0-9+.-]*://';
+
+/** Optional user name and password in front of the host */
+const USERINFO = '(?:[^/?#@]*@)?';
+
+/** Optional port after the host */
+const PORT = '(?::\\d+)?';
+
+/** Optional subdomains in front of a host */
+const SUBDOMAINS = '(?:[^/?#]*\\.)?';
+
+/** Anything that may follow the host: a path, query or fragment */
+const REST = '(?:[/?#].*)?';
+
+/** Characters allowed in wildcard host patterns */
+const WILDCARD_HOST = /^[a-z0-9.*-]+$/;
+
+/**
+ * Check whether a match type uses a structured pattern.
+ * @param matchType - The match type to check
+ * @returns True for the URL-aware match types
+ */
+export function isStructuredMatchType(matchType: SiteRuleMatchType): matchType is StructuredMatchType {
+  return matchType === SiteRuleMatchType.Domain
+    || matchType === SiteRuleMatchType.ExactHost
+    || matchType === SiteRuleMatchType.PathPrefix
+    || matchType === SiteRuleMatchType.QueryParam
+    || matchType === SiteRuleMatchType.Wildcard;
+}
+
+/**
+ * Convert a structured pattern into a regular expression matching the whole URL.
+ * Domain, exact host, path prefix and wildcard patterns accept a comma-separated list.
+ * @param matchType - The structured match type
+ * @param pattern - The rule pattern
+ * @returns The regular expression source, or null if the pattern is invalid
+ *
+ * @example
+ * ```typescript
+ * toStructuredRegex(SiteRuleMatchType.Domain, 'x.com'); // matches x.com and m.x.com, not netflix.com
+ * toStructuredRegex(SiteRuleMatchType.Wildcard, '*.reddit.com/r/*');
+ * ```
+ */
+export function toStructuredRegex(matchType: StructuredMatchType, pattern: string): string | null {
+  if (matchType === SiteRuleMatchType.QueryParam) {
+    const item = queryParamRegex(pattern.trim());
+    return item && `^${item}$`;
+  }
+
+  const items = pattern.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  if (items.length === 0) return null;
+
+  const regexes = items.map(item => {
+    switch (matchType) {
+      case SiteRuleMatchType.Domain: {
+        const host = normalizeHost(item);
+        return host && `${SCHEME}${USERINFO}${SUBDOMAINS}${escapeRegex(host)}${PORT}${REST}`;
+      }
+      case SiteRuleMatchType.ExactHost: {
+        const host = normalizeHost(item);
+        return host && `${SCHEME}${USERINFO}${escapeRegex(host)}${PORT}${REST}`;
+      }
+      case SiteRuleMatchType.PathPrefix:
+        return pathPrefixRegex(item);
+      case SiteRuleMatchType.Wildcard:
+        return wildcardRegex(item);
+    }
+  });
+
+  if (regexes.some(regex => !regex)) return null;
+  return regexes.length === 1 ? `^${regexes[0]}$` : `^(?:${regexes.join('|')})$`;
+}
+
+/**
+ * Check whether a URL matches a structured pattern.
+ * @param matchType - The structured match type
+ * @param url - The URL to check
+ * @param pattern - The rule pattern
+ * @returns True if the URL matches; invalid patterns never match
+ */
+export function matchesStructuredPattern(matchType: StructuredMatchType, url: string, pattern: string): boolean {
+  const regex = toStructuredRegex(matchType, pattern);
+  return regex !== null && new RegExp(regex).test(url);
+}
+
+/**
+ * Get the hosts a structured pattern is restricted to.
+ * Every URL the pattern matches is on one of the hosts or on a subdomain of it,
+ * which lets rules be looked up by host instead of testing each of them.
+ * @param matchType - The structured match type
+ * @param pattern - The rule pattern
+ * @returns The hosts, or null if the pattern is invalid or may match any host
+ */
+export function getStructuredHosts(matchType: StructuredMatchType, pattern: string): string[] | null {
+  if (!toStructuredRegex(matchType, pattern)) return null;
+
+  const items = matchType === SiteRuleMatchType.QueryParam
+    ? [pattern.trim()]
+    : pattern.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+  const hosts: string[] = [];
+  for (const item of items) {
+    const host = getItemHost(matchType, item);
+    if (!host) return null;
+    hosts.push(host);
+  }
+  return hosts;
+}
+
+/**
+ * Get the host a single valid pattern is restricted to.
+ * @param matchType - The structured match type
+ * @param item - A single pattern
+ * @returns The host as it appears in the expression, or null if any host may match
+ */
+function getItemHost(matchType: StructuredMatchType, item: string): string | null {
+  switch (matchType) {
+    case SiteRuleMatchType.Domain:
+    case SiteRuleMatchType.ExactHost:
+      return normalizeHost(item);
+    case SiteRuleMatchType.PathPrefix: {
+      const withoutScheme = item.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+      return normalizeHost(withoutScheme.slice(0, withoutScheme.indexOf('/')));
+    }
+    case SiteRuleMatchType.QueryParam: {
+      const questionMark = item.indexOf('?');
+      return questionMark > 0 ? normalizeHost(item.slice(0, questionMark)) : null;
+    }
+    case SiteRuleMatchType.Wildcard: {
+      const schemeEnd = item.indexOf('://');
+      const rest = schemeEnd >= 0 ? item.slice(schemeEnd + 3) : item;
+      const pathStart = rest.search(/[/?]/);
+      const hostText = (pathStart >= 0 ? rest.slice(0, pathStart) : rest).toLowerCase();
+      const literal = hostText.startsWith('*.') ? hostText.slice(2) : hostText;
+      return literal && !literal.includes('*') ? literal : null;
+    }
+    default:
+      return assertNever(matchType);
+  }
+}
+
+/**
+ * Normalize a host name the way the browser does (lower case, punycode).
+ * A scheme and a trailing slash are tolerated, e.g. when a URL is pasted.
+ * @param text - Host name entered by the user
+ * @returns The normalized host, or null if it is not a plain host name
+ */
+function normalizeHost(text: string): string | null {
+  const host = text.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/\/$/, '');
+  if (!host || /[/?#@:*\s]/.test(host)) return null;
+
+  try {
+    return new URL(`http://${host}`).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the expression of a "path prefix on host" pattern, e.g. "youtube.com/shorts".
+ * The host matches with its subdomains; the prefix ends at a path segment boundary
+ * unless it ends with a slash.
+ * @param item - A single pattern
+ * @returns The expression without anchors, or null if it is invalid
+ */
+function pathPrefixRegex(item: string): string | null {
+  const withoutScheme = item.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+  const slash = withoutScheme.indexOf('/');
+  if (slash <= 0) return null;
+
+  const host = normalizeHost(withoutScheme.slice(0, slash));
+  const path = withoutScheme.slice(slash);
+  if (!host || /[?#]/.test(path)) return null;
+
+  const pathRegex = path.endsWith('/') ? `${escapeRegex(path)}.*` : `${escapeRegex(path)}${REST}`;
+  return `${SCHEME}${USERINFO}${SUBDOMAINS}${escapeRegex(host)}${PORT}${pathRegex}`;
+}
+
+/**
+ * Build the expression of a "query parameter equals" pattern.
+ * Patterns look like "name=value", "youtube.com?list=WL" or "name" (parameter present).
+ * Values are compared as they appear in the URL.
+ * @param item - The pattern
+ * @returns The expression without anchors, or null if it is invalid
+ */
+function queryParamRegex(item: string): string | null {
+  const questionMark = item.indexOf('?');
+  const hostText = questionMark >= 0 ? item.slice(0, questionMark) : '';
+  const query = questionMark >= 0 ? item.slice(questionMark + 1) : item;
+
+  const equals = query.indexOf('=');
+  const name = equals >= 0 ? query.slice(0, equals) : query;
+  const value = equals >= 0 ? query.slice(equals + 1) : undefined;
+  if (!name || /[&#=\s]/.test(name) || (value !== undefined && /[&#\s]/.test(value))) return null;
+
+  let prefix = '[^?#]*';
+  if (hostText) {
+    const host = normalizeHost(hostText);
+    if (!host) return null;
+    prefix = `${SCHEME}${USERINFO}${SUBDOMAINS}${escapeRegex(host)}${PORT}(?:/[^?#]*)?`;
+  }
+
+  const valueRegex = value === undefined ? '(?:=[^&#]*)?' : `=${escapeRegex(value)}`;
+  return `${prefix}\\?(?:[^#]*&)?${escapeRegex(name)}${valueRegex}(?:[&#].*)?`;
+}
+
+/**
+ * Build the expression of a wildcard pattern such as "*.reddit.com/r/*".
+ * "*" matches any text; a leading "*." also matches the bare domain. Patterns
+ * without a path match every page of the host.
+ * @param item - A single pattern
+ * @returns The expression without anchors, or null if it is invalid
+ */
+function wildcardRegex(item: string): string | null {
+  let scheme = SCHEME;
+  let rest = item;
+
+  const schemeEnd = item.indexOf('://');
+  if (schemeEnd >= 0) {
+    const schemeText = item.slice(0, schemeEnd).toLowerCase();
+    if (!/^[a-z0-9+.*-]+$/.test(schemeText)) return null;
+    scheme = `${globToRegex(schemeText, '[^:/]*')}://`;
+    rest = item.slice(schemeEnd + 3);
+  }
+
+  const pathStart = rest.search(/[/?]/);
+  const hostText = (pathStart >= 0 ? rest.slice(0, pathStart) : rest).toLowerCase();
+  const path = pathStart >= 0 ? rest.slice(pathStart) : '';
+  if (!hostText || !WILDCARD_HOST.test(hostText)) return null;
+
+  const hostRegex = hostText.startsWith('*.')
+    ? `${SUBDOMAINS}${globToRegex(hostText.slice(2), '[^/?#]*')}`
+    : globToRegex(hostText, '[^/?#]*');
+
+  if (!path) return `${scheme}${USERINFO}${hostRegex}${PORT}${REST}`;
+
+  const tail = path.includes('?') ? '' : '(?:[?#].*)?';
+  return `${scheme}${USERINFO}${hostRegex}${PORT}${globToRegex(path, '.*')}${tail}`;
+}
+
+/**
+ * Convert a glob into a regular expression.
+ * @param glob - Text in which "*" is a wildcard
+ * @param star - Expression used for each "*"
+ * @returns The regular expression source
+ */
+function globToRegex(glob: string, star: string): string {
+  return glob.split('*').map(escapeRegex).join(star);
+}
+
+/**
+ * Escape special regex characters in a string.
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -14,9 +14,11 @@ export default function (env = {}) {
     entry: {
       'scripts/background': './src/scripts/background.ts',
       'scripts/content': './src/scripts/content.ts',
+      'scripts/historyHook': './src/scripts/historyHook.ts',
       'scripts/popup': './src/scripts/popup.ts',
       'scripts/options': './src/scripts/options.ts',
       'scripts/alert': './src/scripts/alert.ts',
+      'scripts/stats': './src/scripts/stats.ts',
     },
     output: {
       path: path.resolve('dist', `keep-me-focus-${target}`),